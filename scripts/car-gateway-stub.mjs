@@ -0,0 +1,49 @@
+/**
+ * 로컬 트러스트리스 게이트웨이 스텁
+ * fixture 디렉터리의 <cid>.car 파일을 /ipfs/<cid>[/<path>]?format=car 요청에 그대로 응답합니다.
+ * 검증 모드(NEXT_PUBLIC_VERIFIED_FETCH=true)를 인터넷 없이 확인할 때 사용합니다.
+ *
+ *   node scripts/car-gateway-stub.mjs ./fixtures 8080
+ *   NEXT_PUBLIC_TRUSTLESS_GATEWAYS=http://127.0.0.1:8080
+ *
+ * 변조된 CAR를 넣어 두면 카드에 '검증 실패'가 표시되는지 확인할 수 있습니다.
+ */
+
+import { createServer } from 'http'
+import { readFile } from 'fs/promises'
+import { join, resolve } from 'path'
+
+const fixtureDir = resolve(process.argv[2] ?? 'fixtures')
+const port = Number(process.argv[3] ?? 8080)
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*')
+  response.setHeader('Access-Control-Allow-Headers', 'Accept')
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end()
+    return
+  }
+
+  const url = new URL(request.url ?? '/', `http://${request.headers.host}`)
+  const match = url.pathname.match(/^\/ipfs\/([a-zA-Z0-9]+)/)
+  const wantsCar =
+    url.searchParams.get('format') === 'car' ||
+    (request.headers.accept ?? '').includes('application/vnd.ipld.car')
+
+  if (!match || !wantsCar) {
+    response.writeHead(400).end('CAR 요청만 지원합니다.')
+    return
+  }
+
+  try {
+    const car = await readFile(join(fixtureDir, `${match[1]}.car`))
+    response.writeHead(200, { 'Content-Type': 'application/vnd.ipld.car; version=1' })
+    response.end(car)
+  } catch {
+    response.writeHead(404).end('fixture가 없습니다.')
+  }
+})
+
+server.listen(port, () => {
+  console.log(`CAR 게이트웨이 스텁: http://127.0.0.1:${port} (fixtures: ${fixtureDir})`)
+})
@@ -0,0 +1,247 @@
+/**
+ * 로컬 WalletConnect 릴레이 스텁
+ * 실제 릴레이(relay.walletconnect.com) 대신 토픽별 메시지를 중계하는 최소한의 WebSocket 서버입니다.
+ * 인증·프로젝트 ID 검사 없이 irn_* 메서드와 세션 제안·승인(wc_proposeSession / wc_approveSession)만 처리하며,
+ * 구독 전에 발행된 메시지는 TTL 동안 보관했다가 구독하면 전달합니다.
+ *
+ *   npm run relay-stub            (기본 포트 8787)
+ *   NEXT_PUBLIC_WALLETCONNECT_RELAY_URL=ws://127.0.0.1:8787
+ *
+ * 같은 릴레이 URL을 쓰는 테스트 지갑(@walletconnect/sign-client 등)으로 QR의 wc: URI를 페어링하면
+ * 인터넷 없이 연결·서명·체인 전환·세션 종료를 확인할 수 있습니다.
+ */
+
+import { createServer } from 'http'
+import { createHash } from 'crypto'
+
+const port = Number(process.argv[2] ?? 8787)
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const DEFAULT_TTL = 300
+
+// 세션 제안·승인 메시지에 실제 릴레이가 붙이는 태그
+const TAGS = {
+  sessionProposal: 1100,
+  sessionProposalResponse: 1101,
+  sessionSettle: 1102,
+}
+
+// topic -> 구독 중인 소켓과 구독 ID
+const subscriptions = new Map()
+// topic -> 아직 받을 구독자가 없었던 메시지
+const mailbox = new Map()
+let nextId = 1
+
+const bigEndian64 = (value) => {
+  const buffer = Buffer.alloc(8)
+  buffer.writeBigUInt64BE(BigInt(value))
+  return buffer
+}
+
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text)
+  const length = payload.length
+  const header =
+    length < 126
+      ? Buffer.from([0x81, length])
+      : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), bigEndian64(length)])
+  return Buffer.concat([header, payload])
+}
+
+// 클라이언트 프레임은 항상 마스킹되어 있습니다. 조각난 프레임은 사용하지 않으므로 처리하지 않습니다.
+const decodeFrames = (buffer) => {
+  const frames = []
+  let offset = 0
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f
+    let length = buffer[offset + 1] & 0x7f
+    let cursor = offset + 2
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break
+      length = buffer.readUInt16BE(cursor)
+      cursor += 2
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break
+      length = Number(buffer.readBigUInt64BE(cursor))
+      cursor += 8
+    }
+    if (buffer.length < cursor + 4 + length) break
+
+    const mask = buffer.subarray(cursor, cursor + 4)
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length))
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    frames.push({ opcode, payload })
+    offset = cursor + 4 + length
+  }
+  return { frames, rest: buffer.subarray(offset) }
+}
+
+const send = (socket, message) => {
+  if (!socket.destroyed) socket.write(encodeFrame(message))
+}
+
+// 요청 ID는 2^53보다 큰 정수라 JSON.parse를 거치면 값이 바뀌므로 원문 그대로 돌려줍니다.
+const reply = (socket, rawId, result) =>
+  send(socket, `{"id":${rawId},"jsonrpc":"2.0","result":${JSON.stringify(result)}}`)
+
+const deliver = (socket, subscriptionId, data) =>
+  send(
+    socket,
+    JSON.stringify({
+      id: Date.now() * 1000 + (nextId++ % 1000),
+      jsonrpc: '2.0',
+      method: 'irn_subscription',
+      params: { id: subscriptionId, data },
+    })
+  )
+
+const publish = (sender, topic, message, tag = 0, ttl = DEFAULT_TTL) => {
+  const data = { topic, message, publishedAt: Date.now(), tag }
+  const receivers = Array.from(subscriptions.get(topic)?.entries() ?? []).filter(
+    ([socket]) => socket !== sender
+  )
+  if (receivers.length === 0) {
+    const stored = mailbox.get(topic) ?? []
+    stored.push({ data, expiresAt: Date.now() + ttl * 1000 })
+    mailbox.set(topic, stored)
+    return
+  }
+  receivers.forEach(([socket, subscriptionId]) => deliver(socket, subscriptionId, data))
+}
+
+const subscribe = (socket, topic) => {
+  const subscribers = subscriptions.get(topic) ?? new Map()
+  subscriptions.set(topic, subscribers)
+  let subscriptionId = subscribers.get(socket)
+  if (!subscriptionId) {
+    subscriptionId = createHash('sha256').update(`${topic}:${nextId++}`).digest('hex')
+    subscribers.set(socket, subscriptionId)
+  }
+
+  const stored = (mailbox.get(topic) ?? []).filter(({ expiresAt }) => expiresAt > Date.now())
+  mailbox.delete(topic)
+  // 구독 응답이 먼저 도착하도록 다음 틱에 전달
+  setImmediate(() => stored.forEach(({ data }) => deliver(socket, subscriptionId, data)))
+  return subscriptionId
+}
+
+const unsubscribe = (socket, topic) => {
+  subscriptions.get(topic)?.delete(socket)
+  if (subscriptions.get(topic)?.size === 0) subscriptions.delete(topic)
+}
+
+const handleRequest = (socket, text) => {
+  const request = JSON.parse(text)
+  // 클라이언트가 irn_subscription에 보낸 응답
+  if (!request.method) return
+
+  const rawId = text.match(/"id"\s*:\s*("?[\w-]+"?)/)?.[1] ?? 'null'
+  const { method, params = {} } = request
+
+  switch (method) {
+    case 'irn_subscribe':
+      reply(socket, rawId, subscribe(socket, params.topic))
+      return
+    case 'irn_batchSubscribe':
+      reply(socket, rawId, params.topics.map((topic) => subscribe(socket, topic)))
+      return
+    case 'irn_unsubscribe':
+      unsubscribe(socket, params.topic)
+      reply(socket, rawId, true)
+      return
+    case 'irn_batchUnsubscribe':
+      params.subscriptions?.forEach(({ topic }) => unsubscribe(socket, topic))
+      reply(socket, rawId, true)
+      return
+    case 'irn_batchFetchMessages':
+      // 보관 메시지는 구독할 때 전달하므로 따로 가져올 것이 없습니다.
+      reply(socket, rawId, { messages: [], hasMore: false })
+      return
+    case 'irn_publish':
+      publish(socket, params.topic, params.message, params.tag, params.ttl)
+      reply(socket, rawId, true)
+      return
+    case 'irn_batchPublish':
+      params.messages?.forEach(({ topic, message, tag, ttl }) =>
+        publish(socket, topic, message, tag, ttl)
+      )
+      reply(socket, rawId, true)
+      return
+    case 'wc_proposeSession':
+      publish(socket, params.pairingTopic, params.sessionProposal, TAGS.sessionProposal, params.ttl)
+      reply(socket, rawId, true)
+      return
+    case 'wc_approveSession':
+      publish(
+        socket,
+        params.pairingTopic,
+        params.sessionProposalResponse,
+        TAGS.sessionProposalResponse,
+        params.ttl
+      )
+      publish(
+        socket,
+        params.sessionTopic,
+        params.sessionSettlementRequest,
+        TAGS.sessionSettle,
+        params.ttl
+      )
+      reply(socket, rawId, true)
+      return
+    default:
+      send(
+        socket,
+        `{"id":${rawId},"jsonrpc":"2.0","error":{"code":-32601,"message":"지원하지 않는 메서드: ${method}"}}`
+      )
+  }
+}
+
+const server = createServer((_, response) => {
+  response.writeHead(426).end('WebSocket 연결만 지원합니다.')
+})
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key']
+  if (!key) {
+    socket.destroy()
+    return
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  )
+
+  let pending = Buffer.alloc(0)
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]))
+    pending = rest
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0]))
+        return
+      }
+      if (opcode === 0x9) {
+        socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]))
+        continue
+      }
+      if (opcode !== 0x1) continue
+      try {
+        handleRequest(socket, payload.toString())
+      } catch (error) {
+        console.error('잘못된 요청:', error.message)
+      }
+    }
+  })
+
+  const cleanup = () => subscriptions.forEach((_, topic) => unsubscribe(socket, topic))
+  socket.on('close', cleanup)
+  socket.on('error', cleanup)
+})
+
+server.listen(port, () => {
+  console.log(`WalletConnect 릴레이 스텁: ws://127.0.0.1:${port}`)
+})
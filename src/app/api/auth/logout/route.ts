@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { destroySession } from '@/lib/server/session'
+
+export async function POST() {
+  await destroySession()
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { issueNonce } from '@/lib/server/session'
+
+/**
+ * SIWE 로그인용 nonce 발급
+ */
+export async function GET() {
+  const nonce = await issueNonce()
+  return NextResponse.json({ nonce }, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/server/session'
+
+/**
+ * 현재 로그인 세션 조회 (로그인하지 않았으면 401)
+ */
+export async function GET() {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: '로그인이 필요합니다.' }, { status: 401 })
+  }
+  return NextResponse.json(session, { headers: { 'Cache-Control': 'no-store' } })
+}
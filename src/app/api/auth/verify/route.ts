@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSession } from '@/lib/server/session'
+import { SiweVerificationError, verifySiweMessage } from '@/lib/server/siwe'
+
+/**
+ * 서명된 SIWE 메시지를 검증하고 세션 쿠키를 발급합니다.
+ * 프록시 뒤에서 호스트가 달라지면 SIWE_DOMAIN으로 도메인을 고정할 수 있습니다.
+ */
+export async function POST(request: NextRequest) {
+  let body: { message?: unknown; signature?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: '요청 형식이 올바르지 않습니다.' }, { status: 400 })
+  }
+
+  const { message, signature } = body
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return NextResponse.json({ error: 'message와 signature가 필요합니다.' }, { status: 400 })
+  }
+
+  try {
+    const domain = process.env.SIWE_DOMAIN || request.nextUrl.host
+    const verified = await verifySiweMessage(message, signature, domain)
+    const session = await createSession(verified.address, verified.chainId)
+    return NextResponse.json(session)
+  } catch (error) {
+    if (error instanceof SiweVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('SIWE verify error:', error)
+    return NextResponse.json({ error: '로그인 검증에 실패했습니다.' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/server/session'
+import { getPinningService } from '@/lib/server/pinning'
+import { reserveQuota } from '@/lib/server/quota'
+import {
+  detectImageType,
+  errorResponse,
+  isBodyTooLarge,
+  uploadErrorResponse,
+} from '@/lib/server/upload'
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_SIZE, formatBytes } from '@/lib/uploadLimits'
+
+// multipart 경계와 헤더에 쓰이는 여유분
+const MULTIPART_OVERHEAD = 16 * 1024
+
+/**
+ * 이미지 파일을 IPFS에 업로드합니다. (SIWE 로그인 필요)
+ * 요청: multipart/form-data, file 필드
+ * 응답: { cid }
+ */
+export async function POST(request: Request) {
+  const session = await getSession()
+  if (!session) {
+    return errorResponse('먼저 이더리움으로 로그인해주세요.', 401)
+  }
+
+  if (isBodyTooLarge(request, MAX_IMAGE_SIZE + MULTIPART_OVERHEAD)) {
+    return errorResponse(`파일 크기는 ${formatBytes(MAX_IMAGE_SIZE)} 이하여야 합니다.`, 413)
+  }
+
+  let file: FormDataEntryValue | null
+  try {
+    file = (await request.formData()).get('file')
+  } catch {
+    return errorResponse('요청 형식이 올바르지 않습니다.', 400)
+  }
+  if (!(file instanceof File)) {
+    return errorResponse('업로드할 파일이 없습니다.', 400)
+  }
+  if (file.size > MAX_IMAGE_SIZE) {
+    return errorResponse(`파일 크기는 ${formatBytes(MAX_IMAGE_SIZE)} 이하여야 합니다.`, 413)
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer())
+  const type = detectImageType(data)
+  if (!type || !ALLOWED_IMAGE_TYPES.includes(type)) {
+    return errorResponse('PNG, JPEG, GIF, WebP, AVIF 이미지만 업로드할 수 있습니다.', 415)
+  }
+
+  try {
+    const release = reserveQuota(session.address, file.size)
+    try {
+      const cid = await getPinningService().pinFile(new Blob([data], { type }), file.name)
+      return NextResponse.json({ cid })
+    } catch (error) {
+      release()
+      throw error
+    }
+  } catch (error) {
+    return uploadErrorResponse(error)
+  }
+}
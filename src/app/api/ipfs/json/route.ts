@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/server/session'
+import { getPinningService } from '@/lib/server/pinning'
+import { reserveQuota } from '@/lib/server/quota'
+import { errorResponse, isBodyTooLarge, uploadErrorResponse } from '@/lib/server/upload'
+import { MAX_METADATA_SIZE, formatBytes } from '@/lib/uploadLimits'
+import { formatMetadataErrors, validateMetadata } from '@/lib/metadata'
+
+/**
+ * JSON 메타데이터를 IPFS에 업로드합니다. (SIWE 로그인 필요)
+ * 요청: application/json 본문 (메타데이터 객체)
+ * 응답: { cid }
+ */
+export async function POST(request: Request) {
+  const session = await getSession()
+  if (!session) {
+    return errorResponse('먼저 이더리움으로 로그인해주세요.', 401)
+  }
+
+  if (!request.headers.get('content-type')?.startsWith('application/json')) {
+    return errorResponse('JSON 형식만 업로드할 수 있습니다.', 415)
+  }
+  const tooLarge = `메타데이터 크기는 ${formatBytes(MAX_METADATA_SIZE)} 이하여야 합니다.`
+  if (isBodyTooLarge(request, MAX_METADATA_SIZE)) {
+    return errorResponse(tooLarge, 413)
+  }
+
+  const text = await request.text()
+  const size = new TextEncoder().encode(text).length
+  if (size > MAX_METADATA_SIZE) {
+    return errorResponse(tooLarge, 413)
+  }
+
+  let content: unknown
+  try {
+    content = JSON.parse(text)
+  } catch {
+    return errorResponse('JSON 형식이 올바르지 않습니다.', 400)
+  }
+
+  // 클라이언트 검증을 우회한 요청도 잘못된 메타데이터는 고정하지 않습니다.
+  const { valid, metadata, errors } = validateMetadata(content, 'write')
+  if (!valid) {
+    return errorResponse(`메타데이터가 올바르지 않습니다.\n${formatMetadataErrors(errors)}`, 400)
+  }
+
+  try {
+    const release = reserveQuota(session.address, size)
+    try {
+      const cid = await getPinningService().pinJSON(metadata, `NFT Metadata - ${metadata.name}`)
+      return NextResponse.json({ cid })
+    } catch (error) {
+      release()
+      throw error
+    }
+  } catch (error) {
+    return uploadErrorResponse(error)
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { normalizeCID } from '@/lib/cid'
+import { getSession } from '@/lib/server/session'
+import { getPinningService } from '@/lib/server/pinning'
+import { errorResponse, uploadErrorResponse } from '@/lib/server/upload'
+
+/**
+ * CID가 피닝 서비스에 이미 고정되어 있는지 확인합니다. (SIWE 로그인 필요)
+ * 응답: { cid, pinned }
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ cid: string }> }) {
+  const session = await getSession()
+  if (!session) {
+    return errorResponse('먼저 이더리움으로 로그인해주세요.', 401)
+  }
+
+  const cid = normalizeCID((await params).cid)
+  if (!cid) {
+    return errorResponse('CID 형식이 올바르지 않습니다.', 400)
+  }
+
+  try {
+    const pinned = await getPinningService().isPinned(cid)
+    return NextResponse.json({ cid, pinned }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    return uploadErrorResponse(error)
+  }
+}
@@ -1,13 +1,72 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import Image from 'next/image'
 import { ethers } from 'ethers'
-import { connectWallet, getProvider, formatAddress } from '@/lib/web3'
-import { getContract, getContractWithSigner } from '@/lib/contract'
-import { contractAddress } from '@/lib/constants'
+import {
+  connectWallet,
+  disconnectWallet,
+  getReadProvider,
+  getSigner,
+  switchNetwork,
+  formatAddress,
+} from '@/lib/web3'
+import {
+  SAFE_TRANSFER_FROM,
+  getContract,
+  getContractWithSigner,
+  readTokenData,
+} from '@/lib/contract'
+import {
+  NETWORKS,
+  DEFAULT_NETWORK,
+  NetworkConfig,
+  getNetworkByKey,
+  getNetworkByChainId,
+  getExplorerUrl,
+  isNetworkDeployed,
+} from '@/lib/networks'
+import {
+  WalletConnector,
+  getActiveConnector,
+  getConnectors,
+  subscribeConnectors,
+} from '@/lib/connectors'
+import {
+  syncOwnershipIndex,
+  resolveTokenURIs,
+  getAllTokenIds,
+  getTokensOwnedBy,
+  getTokensApprovedFor,
+} from '@/lib/indexer'
+import { fetchSession, signInWithEthereum, signOut } from '@/lib/auth'
+import { SiweSession } from '@/lib/siwe'
 import { uploadMetadataToIPFS, getIPFSUrl, NFTMetadata } from '@/lib/ipfs'
+import { TraitRow, toMetadataAttributes } from '@/lib/traits'
+import { resolveRecipient } from '@/lib/recipient'
+import { fetchContractOwner } from '@/lib/ownership'
+import { formatError } from '@/lib/errors'
+import { onTransactionSettled, resumeTransactions, trackTransaction } from '@/lib/transactions'
+import { requestTransactionApproval } from '@/lib/preflight'
+import {
+  CollectionRarity,
+  computeRarity,
+  fetchCollectionTraits,
+  formatPercentile,
+} from '@/lib/rarity'
 import NFTCard from '@/components/NFTCard'
 import ImageUpload from '@/components/ImageUpload'
+import WalletConnectModal from '@/components/WalletConnectModal'
+import TransactionToasts from '@/components/TransactionToasts'
+import TransactionPreviewDialog from '@/components/TransactionPreviewDialog'
+import PendingTransactionsPanel from '@/components/PendingTransactionsPanel'
+import ApprovalsDashboard from '@/components/ApprovalsDashboard'
+import BulkActionsPanel from '@/components/BulkActionsPanel'
+import TraitsEditor from '@/components/TraitsEditor'
+import BatchMintWizard from '@/components/BatchMintWizard'
+import AirdropPanel from '@/components/AirdropPanel'
+import RecipientInput from '@/components/RecipientInput'
+import AdminPanel from '@/components/AdminPanel'
 
 type NFTInfo = {
   tokenId: string
@@ -21,21 +80,42 @@ type DelegatedNFTInfo = NFTInfo & {
 
 type QueryMode = 'my' | 'all' | 'approved' | 'token'
 
+const NETWORK_STORAGE_KEY = 'selectedNetwork'
+// 트랜잭션 확정 후 다시 조회하기까지 기다리는 시간 (연속으로 확정되는 건을 모읍니다)
+const SETTLED_REFRESH_DELAY_MS = 1000
+
 export default function Home() {
   const [address, setAddress] = useState<string>('')
+  const [network, setNetwork] = useState<NetworkConfig>(DEFAULT_NETWORK)
+  const [isNetworkRestored, setIsNetworkRestored] = useState(false)
+  const [walletChainId, setWalletChainId] = useState<number | null>(null)
+  const [connectors, setConnectors] = useState<WalletConnector[]>([])
+  const [connectorId, setConnectorId] = useState<string | null>(null)
+  const hasWallet = connectors.length > 0
+  const [pairingUri, setPairingUri] = useState<string | null>(null)
   const [isConnecting, setIsConnecting] = useState(false)
+  const [session, setSession] = useState<SiweSession | null>(null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
   const [contractInfo, setContractInfo] = useState<{
     name: string
     symbol: string
+    // Ownable owner() (조회 실패 시 null)
+    owner: string | null
   } | null>(null)
   const [myNFTs, setMyNFTs] = useState<NFTInfo[]>([])
+  // 내 NFT 목록에서 일괄 처리할 토큰 (선택한 순서 유지)
+  const [selectedTokenIds, setSelectedTokenIds] = useState<string[]>([])
   const [allNFTs, setAllNFTs] = useState<NFTInfo[]>([])
+  const [collectionRarity, setCollectionRarity] = useState<CollectionRarity | null>(null)
+  const [isComputingRarity, setIsComputingRarity] = useState(false)
   const [approvedNFTs, setApprovedNFTs] = useState<DelegatedNFTInfo[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingAllNFTs, setIsLoadingAllNFTs] = useState(false)
   const [isLoadingApprovedNFTs, setIsLoadingApprovedNFTs] = useState(false)
   const [isLoadingTokenQuery, setIsLoadingTokenQuery] = useState(false)
   const [mintTokenURI, setMintTokenURI] = useState('')
+  // 비워두면 연결된 지갑으로 민팅
+  const [mintRecipient, setMintRecipient] = useState('')
   const [isMinting, setIsMinting] = useState(false)
   const [balance, setBalance] = useState<bigint>(0n)
 
@@ -44,7 +124,8 @@ export default function Home() {
   const [imageUrl, setImageUrl] = useState<string | null>(null)
   const [nftName, setNftName] = useState('')
   const [nftDescription, setNftDescription] = useState('')
-  const [mintMode, setMintMode] = useState<'image' | 'uri'>('image')
+  const [traitRows, setTraitRows] = useState<TraitRow[]>([])
+  const [mintMode, setMintMode] = useState<'image' | 'uri' | 'batch' | 'airdrop'>('image')
   const [isUploadingMetadata, setIsUploadingMetadata] = useState(false)
   const [delegateTargets, setDelegateTargets] = useState<
     Record<string, string>
@@ -59,33 +140,163 @@ export default function Home() {
     }
     return map
   }, [approvedNFTs])
+  // safeMint는 onlyOwner이므로 소유자에게만 민팅 기능을 보여줍니다. (owner를 모르면 막지 않음)
+  const contractOwner = contractInfo?.owner ?? null
+  const canMint =
+    !!address && (!contractOwner || contractOwner.toLowerCase() === address.toLowerCase())
   const [activeQuery, setActiveQuery] = useState<QueryMode>('my')
   const [tokenIdInput, setTokenIdInput] = useState('')
   const [tokenQueryResults, setTokenQueryResults] = useState<NFTInfo[]>([])
   const [lastQueriedTokenId, setLastQueriedTokenId] = useState('')
 
+  // 전체 NFT가 바뀌면 메타데이터 속성을 모아 컬렉션 희귀도를 다시 계산
+  useEffect(() => {
+    if (allNFTs.length === 0) {
+      setCollectionRarity(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsComputingRarity(true)
+    fetchCollectionTraits(allNFTs, controller.signal)
+      .then((tokens) => {
+        if (!controller.signal.aborted) setCollectionRarity(computeRarity(tokens))
+      })
+      .catch((error) => console.error('희귀도 계산 오류:', error))
+      .finally(() => {
+        if (!controller.signal.aborted) setIsComputingRarity(false)
+      })
+    return () => controller.abort()
+  }, [allNFTs])
+
+  // 마지막으로 선택한 네트워크 복원
+  useEffect(() => {
+    const saved = getNetworkByKey(localStorage.getItem(NETWORK_STORAGE_KEY) ?? '')
+    if (saved && isNetworkDeployed(saved)) {
+      setNetwork(saved)
+    }
+    setIsNetworkRestored(true)
+  }, [])
+
+  // EIP-6963으로 발견되는 지갑 목록과 선택된 커넥터 추적
+  useEffect(() => {
+    const updateConnectors = (next: WalletConnector[]) => {
+      setConnectors(next)
+      setConnectorId(getActiveConnector()?.id ?? null)
+    }
+    updateConnectors(getConnectors())
+    return subscribeConnectors(updateConnectors)
+  }, [])
+
+  // QR 페어링이 필요한 커넥터가 연결 URI를 만들면 모달 표시
   useEffect(() => {
+    const unsubscribers = connectors.map((connector) =>
+      connector.on('displayUri', setPairingUri)
+    )
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [connectors])
+
+  // 이전에 로그인한 SIWE 세션 복원
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch((error) => console.error('Session fetch error:', error))
+  }, [])
+
+  // 지갑 계정이 바뀌면 다른 주소로 발급된 세션은 로그아웃
+  useEffect(() => {
+    if (!session || !address) return
+    if (session.address.toLowerCase() !== address.toLowerCase()) {
+      handleSignOut()
+    }
+  }, [session, address])
+
+  // 네트워크나 지갑이 바뀌면 네트워크별 상태를 비우고 다시 조회
+  useEffect(() => {
+    if (!isNetworkRestored) return
+    resetNetworkState()
     checkConnection()
-    if (window.ethereum) {
-      window.ethereum.on('accountsChanged', handleAccountsChanged)
-      window.ethereum.on('chainChanged', () => window.location.reload())
+  }, [network, isNetworkRestored, connectorId])
+
+  useEffect(() => {
+    const connector = getActiveConnector()
+    if (!connector) return
+    const unsubscribers = [
+      connector.on('accountsChanged', handleAccountsChanged),
+      connector.on('chainChanged', handleChainChanged),
+      connector.on('disconnect', () => handleAccountsChanged([])),
+    ]
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [network, address, activeQuery, connectorId])
+
+  // 새로고침 전에 보낸 트랜잭션을 이어서 추적
+  useEffect(() => {
+    if (!address) return
+    resumeTransactions(network, address).catch((error) =>
+      console.error('트랜잭션 복원 오류:', error)
+    )
+  }, [network, address])
+
+  // 확정 후 실행할 새로고침. 대기 중에 탭·조회 조건이 바뀌어도 실행 시점의 최신 조건을 쓰도록
+  // 매 렌더마다 갱신합니다.
+  const refreshAfterSettledRef = useRef<(reloadData: boolean) => Promise<void>>(async () => {})
+  useEffect(() => {
+    refreshAfterSettledRef.current = async (reloadData) => {
+      if (address && reloadData) await loadData(address)
+      await refreshActiveQuery()
     }
+  })
+
+  // 추적 중인 트랜잭션이 처리되면 관련 데이터를 다시 조회
+  // 일괄 민팅·전송처럼 여러 건이 잇따라 확정되면 모아서 한 번만 조회합니다.
+  // 구독은 네트워크가 바뀔 때만 다시 만들므로 탭을 옮겨도 대기 중인 새로고침이 취소되지 않습니다.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let shouldReloadData = false
+
+    const unsubscribe = onTransactionSettled((tx) => {
+      if (tx.chainId !== network.chainId || tx.status === 'failed') return
+      if (tx.kind === 'mint' || tx.kind === 'ownership') shouldReloadData = true
+
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = null
+        const reloadData = shouldReloadData
+        shouldReloadData = false
+        refreshAfterSettledRef.current(reloadData).catch((error) =>
+          console.error('트랜잭션 처리 후 새로고침 오류:', error)
+        )
+      }, SETTLED_REFRESH_DELAY_MS)
+    })
     return () => {
-      if (window.ethereum) {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged)
-      }
+      unsubscribe()
+      if (timer) clearTimeout(timer)
     }
-  }, [])
+  }, [network.chainId])
+
+  const resetNetworkState = () => {
+    setMyNFTs([])
+    setSelectedTokenIds([])
+    setAllNFTs([])
+    setApprovedNFTs([])
+    setTokenQueryResults([])
+    setLastQueriedTokenId('')
+    setDelegateTargets({})
+    setContractInfo(null)
+    setBalance(0n)
+  }
+
+  const selectNetwork = (next: NetworkConfig) => {
+    localStorage.setItem(NETWORK_STORAGE_KEY, next.key)
+    setNetwork(next)
+  }
 
   const handleAccountsChanged = (accounts: string[]) => {
     if (accounts.length === 0) {
       setAddress('')
-      setMyNFTs([])
-      setAllNFTs([])
-      setApprovedNFTs([])
-      setDelegateTargets({})
-      setContractInfo(null)
-      setBalance(0n)
+      setWalletChainId(null)
+      resetNetworkState()
+      loadData()
     } else {
       setAddress(accounts[0])
       loadData(accounts[0])
@@ -93,61 +304,142 @@ export default function Home() {
     }
   }
 
+  // 지갑에서 체인을 바꾸면 페이지를 새로고침하지 않고 해당 네트워크로 전환
+  const handleChainChanged = (chainId: number) => {
+    setWalletChainId(chainId)
+
+    const next = getNetworkByChainId(chainId)
+    if (next && isNetworkDeployed(next) && next.key !== network.key) {
+      selectNetwork(next)
+    }
+  }
+
+  const handleSelectNetwork = async (key: string) => {
+    const next = getNetworkByKey(key)
+    if (!next || next.key === network.key) return
+
+    if (address) {
+      try {
+        await switchNetwork(next)
+      } catch (error) {
+        alert(formatError(error, '네트워크 전환에 실패했습니다.'))
+        return
+      }
+    }
+    selectNetwork(next)
+  }
+
   const checkConnection = async () => {
-    const provider = getProvider()
-    if (!provider) return
+    const connector = getActiveConnector()
+    if (!connector) {
+      await loadData()
+      return
+    }
 
     try {
-      const accounts = await provider.send('eth_accounts', [])
-      if (accounts.length > 0) {
-        setAddress(accounts[0])
-        await loadData(accounts[0])
-        await loadApprovedNFTs({ targetAddress: accounts[0], skipAlert: true })
+      const accounts = await connector.getAccounts()
+      const chainId = await connector.getChainId()
+      setWalletChainId(chainId)
+      if (accounts.length === 0) {
+        await loadData()
+        return
+      }
+
+      setAddress(accounts[0])
+      // 지갑이 지원하는 다른 네트워크에 있으면 그 네트워크를 따라갑니다.
+      const walletNetwork = getNetworkByChainId(chainId)
+      if (walletNetwork && isNetworkDeployed(walletNetwork) && walletNetwork.key !== network.key) {
+        selectNetwork(walletNetwork)
+        return
       }
+
+      await loadData(accounts[0])
+      await loadApprovedNFTs({ targetAddress: accounts[0], skipAlert: true })
     } catch (error) {
       console.error('Connection check error:', error)
     }
   }
 
-  const handleConnect = async () => {
+  const handleConnect = async (selectedConnectorId?: string) => {
     try {
       setIsConnecting(true)
-      const { address: connectedAddress } = await connectWallet()
+      const { address: connectedAddress } = await connectWallet(
+        network,
+        selectedConnectorId
+      )
+      setConnectorId(getActiveConnector()?.id ?? null)
+      setWalletChainId(network.chainId)
       setAddress(connectedAddress)
       await loadData(connectedAddress)
       await loadApprovedNFTs({
         targetAddress: connectedAddress,
         skipAlert: true,
       })
-    } catch (error: any) {
-      alert(error.message || '지갑 연결에 실패했습니다.')
+    } catch (error) {
+      alert(formatError(error, '지갑 연결에 실패했습니다.'))
     } finally {
       setIsConnecting(false)
+      setPairingUri(null)
     }
   }
 
-  const loadData = async (userAddress: string) => {
-    if (!userAddress) return
+  const handleClosePairing = () => {
+    getActiveConnector()?.abortConnect?.()
+    setPairingUri(null)
+  }
 
-    setIsLoading(true)
+  const handleDisconnect = async () => {
+    try {
+      await disconnectWallet()
+    } catch (error) {
+      console.error('Disconnect error:', error)
+    }
+    if (session) {
+      await handleSignOut()
+    }
+    handleAccountsChanged([])
+  }
+
+  const handleSignIn = async () => {
+    try {
+      setIsSigningIn(true)
+      setSession(await signInWithEthereum(network))
+    } catch (error) {
+      alert(formatError(error, '로그인에 실패했습니다.'))
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  const handleSignOut = async () => {
     try {
-      const provider = getProvider()
-      if (!provider) return
+      await signOut()
+    } catch (error) {
+      console.error('Sign out error:', error)
+    }
+    setSession(null)
+  }
 
-      const contract = getContract(provider)
+  // 지갑이 없으면 컨트랙트 정보만 조회 (읽기 전용 모드)
+  const loadData = async (userAddress?: string) => {
+    setIsLoading(true)
+    try {
+      const provider = await getReadProvider(network)
+      const contract = getContract(provider, network)
 
       // 컨트랙트 정보 조회
-      const [name, symbol, balanceOf] = await Promise.all([
+      const [name, symbol, owner, balanceOf] = await Promise.all([
         contract.name(),
         contract.symbol(),
-        contract.balanceOf(userAddress),
+        fetchContractOwner(provider, network),
+        userAddress ? contract.balanceOf(userAddress) : 0n,
       ])
 
-      setContractInfo({ name, symbol })
+      setContractInfo({ name, symbol, owner })
       setBalance(balanceOf)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Load data error:', error)
-      alert(error.message || '데이터 로드에 실패했습니다.')
+      alert(formatError(error, '데이터 로드에 실패했습니다.'))
     } finally {
       setIsLoading(false)
     }
@@ -161,50 +453,23 @@ export default function Home() {
 
     setIsLoading(true)
     try {
-      const provider = getProvider()
-      if (!provider) return
-
-      const contract = getContract(provider)
-
-      // Transfer 이벤트를 조회하여 사용자가 받은 모든 NFT 찾기
-      const filter = contract.filters.Transfer(null, address)
-      const events = await contract.queryFilter(filter)
-
-      // 중복 제거를 위한 Set 사용
-      const tokenIdSet = new Set<string>()
-
-      // Transfer 이벤트에서 to가 사용자 주소인 경우만 수집
-      for (const event of events) {
-        if ('args' in event && event.args) {
-          const args = event.args as any
-          if (args.to && args.to.toLowerCase() === address.toLowerCase()) {
-            tokenIdSet.add(args.tokenId.toString())
-          }
-        }
-      }
+      const provider = await getReadProvider(network)
 
-      // 현재 소유하고 있는지 확인 (전송된 경우 제외)
-      const nftPromises = Array.from(tokenIdSet).map(async (tokenId) => {
-        try {
-          const owner = await contract.ownerOf(tokenId)
-          if (owner.toLowerCase() === address.toLowerCase()) {
-            const tokenURI = await contract.tokenURI(tokenId).catch(() => '')
-            return { tokenId, owner, tokenURI }
-          }
-          return null
-        } catch {
-          return null
-        }
-      })
+      // 인덱스에서 현재 소유 중인 토큰만 가져오기
+      const index = await syncOwnershipIndex(provider, network)
+      const tokenIds = getTokensOwnedBy(index, address)
+      const tokenURIs = await resolveTokenURIs(provider, network, index, tokenIds)
 
-      const nfts = (await Promise.all(nftPromises)).filter(
-        (nft) => nft !== null
-      ) as NFTInfo[]
+      const nfts: NFTInfo[] = tokenIds.map((tokenId) => ({
+        tokenId,
+        owner: index.owners.get(tokenId) ?? address,
+        tokenURI: tokenURIs.get(tokenId) ?? '',
+      }))
 
       setMyNFTs(nfts)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Load all NFTs error:', error)
-      alert(error.message || 'NFT 조회에 실패했습니다.')
+      alert(formatError(error, 'NFT 조회에 실패했습니다.'))
     } finally {
       setIsLoading(false)
     }
@@ -213,49 +478,22 @@ export default function Home() {
   const loadAllNFTs = async () => {
     setIsLoadingAllNFTs(true)
     try {
-      const provider = getProvider()
-      if (!provider) {
-        alert('MetaMask를 설치하고 활성화한 뒤 다시 시도해주세요.')
-        return
-      }
-
-      const contract = getContract(provider)
-      const filter = contract.filters.Transfer(null, null)
-      const events = await contract.queryFilter(filter)
-
-      const tokenIdSet = new Set<string>()
-      for (const event of events) {
-        if ('args' in event && event.args?.tokenId) {
-          tokenIdSet.add(event.args.tokenId.toString())
-        }
-      }
-
-      const nftPromises = Array.from(tokenIdSet).map(async (tokenId) => {
-        try {
-          const [owner, tokenURI] = await Promise.all([
-            contract.ownerOf(tokenId),
-            contract.tokenURI(tokenId).catch(() => ''),
-          ])
-          return { tokenId, owner, tokenURI }
-        } catch {
-          return null
-        }
-      })
+      const provider = await getReadProvider(network)
 
-      const nfts = (await Promise.all(nftPromises)).filter(
-        (nft): nft is NFTInfo => nft !== null
-      )
+      const index = await syncOwnershipIndex(provider, network)
+      const tokenIds = getAllTokenIds(index)
+      const tokenURIs = await resolveTokenURIs(provider, network, index, tokenIds)
 
-      nfts.sort((a, b) => {
-        const diff = BigInt(b.tokenId) - BigInt(a.tokenId)
-        if (diff === 0n) return 0
-        return diff > 0n ? 1 : -1
-      })
+      const nfts: NFTInfo[] = tokenIds.map((tokenId) => ({
+        tokenId,
+        owner: index.owners.get(tokenId) ?? ethers.ZeroAddress,
+        tokenURI: tokenURIs.get(tokenId) ?? '',
+      }))
 
       setAllNFTs(nfts)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Load all NFTs error:', error)
-      alert(error.message || '전체 NFT 조회에 실패했습니다.')
+      alert(formatError(error, '전체 NFT 조회에 실패했습니다.'))
     } finally {
       setIsLoadingAllNFTs(false)
     }
@@ -278,86 +516,26 @@ export default function Home() {
 
     setIsLoadingApprovedNFTs(true)
     try {
-      const provider = getProvider()
-      if (!provider) {
-        if (!skipAlert) {
-          alert('MetaMask를 설치하고 활성화한 뒤 다시 시도해주세요.')
-        }
-        return
-      }
-
-      const contract = getContract(provider)
-      const transferFilter = contract.filters.Transfer(null, null)
-      const events = await contract.queryFilter(transferFilter)
-
-      const tokenIdSet = new Set<string>()
-      for (const event of events) {
-        if ('args' in event && event.args?.tokenId) {
-          tokenIdSet.add(event.args.tokenId.toString())
-        }
-      }
-
-      const userAddressLower = userAddress.toLowerCase()
-      const ownerApprovalCache = new Map<string, boolean>()
-
-      const nftPromises = Array.from(tokenIdSet).map(async (tokenId) => {
-        try {
-          const [owner, tokenURI, approved] = await Promise.all([
-            contract.ownerOf(tokenId),
-            contract.tokenURI(tokenId).catch(() => ''),
-            contract.getApproved(tokenId).catch(() => ethers.ZeroAddress),
-          ])
-
-          const ownerLower = owner.toLowerCase()
-          if (approved && approved.toLowerCase() === userAddressLower) {
-            return {
-              tokenId,
-              owner,
-              tokenURI,
-              approvalType: 'single' as const,
-            }
-          }
-
-          let isOperator = ownerApprovalCache.get(ownerLower)
-          if (isOperator === undefined) {
-            try {
-              isOperator = await contract.isApprovedForAll(owner, userAddress)
-            } catch {
-              isOperator = false
-            }
-            ownerApprovalCache.set(ownerLower, Boolean(isOperator))
-          }
-
-          if (isOperator) {
-            return {
-              tokenId,
-              owner,
-              tokenURI,
-              approvalType: 'all' as const,
-            }
-          }
-
-          return null
-        } catch (error) {
-          console.error('Delegate NFT fetch error:', error)
-          return null
-        }
-      })
-
-      const delegated = (await Promise.all(nftPromises)).filter(
-        (nft): nft is DelegatedNFTInfo => nft !== null
+      const provider = await getReadProvider(network)
+
+      const index = await syncOwnershipIndex(provider, network)
+      const approved = getTokensApprovedFor(index, userAddress)
+      const tokenURIs = await resolveTokenURIs(
+        provider,
+        network,
+        index,
+        approved.map((nft) => nft.tokenId)
       )
 
-      delegated.sort((a, b) => {
-        const diff = BigInt(b.tokenId) - BigInt(a.tokenId)
-        if (diff === 0n) return 0
-        return diff > 0n ? 1 : -1
-      })
+      const delegated: DelegatedNFTInfo[] = approved.map((nft) => ({
+        ...nft,
+        tokenURI: tokenURIs.get(nft.tokenId) ?? '',
+      }))
 
       setApprovedNFTs(delegated)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Load approved NFTs error:', error)
-      alert(error.message || '승인된 NFT 조회에 실패했습니다.')
+      alert(formatError(error, '승인된 NFT 조회에 실패했습니다.'))
     } finally {
       setIsLoadingApprovedNFTs(false)
     }
@@ -377,26 +555,25 @@ export default function Home() {
 
     try {
       setIsLoadingTokenQuery(true)
-      const provider = getProvider()
-      if (!provider) {
-        if (!suppressAlerts) {
-          alert('MetaMask를 설치하고 활성화한 뒤 다시 시도해주세요.')
-        }
-        return
+      const provider = await getReadProvider(network)
+
+      const [token] = await readTokenData(provider, network, [normalizedTokenId])
+      if (!token.exists || !token.owner) {
+        throw new Error(`Token ID ${normalizedTokenId}는 존재하지 않습니다.`)
       }
 
-      const contract = getContract(provider)
-      const [owner, tokenURI] = await Promise.all([
-        contract.ownerOf(normalizedTokenId),
-        contract.tokenURI(normalizedTokenId),
+      setTokenQueryResults([
+        {
+          tokenId: normalizedTokenId,
+          owner: token.owner,
+          tokenURI: token.tokenURI ?? '',
+        },
       ])
-
-      setTokenQueryResults([{ tokenId: normalizedTokenId, owner, tokenURI }])
       setLastQueriedTokenId(normalizedTokenId)
-    } catch (error: any) {
+    } catch (error) {
       console.error('Query token error:', error)
       if (!suppressAlerts) {
-        alert(error.message || '토큰 조회에 실패했습니다.')
+        alert(formatError(error, '토큰 조회에 실패했습니다.'))
       }
     } finally {
       setIsLoadingTokenQuery(false)
@@ -444,6 +621,9 @@ export default function Home() {
     setImageUrl(url)
   }
 
+  const getMintRecipient = async () =>
+    mintRecipient.trim() ? (await resolveRecipient(mintRecipient)).address : address
+
   const handleMintWithImage = async () => {
     if (!address) {
       alert('먼저 지갑을 연결해주세요.')
@@ -460,7 +640,14 @@ export default function Home() {
       return
     }
 
+    const { attributes, errors: traitErrors } = toMetadataAttributes(traitRows)
+    if (traitErrors.length > 0) {
+      alert(`속성 입력을 확인해주세요.\n${traitErrors.map(({ message }) => message).join('\n')}`)
+      return
+    }
+
     try {
+      const recipient = await getMintRecipient()
       setIsUploadingMetadata(true)
 
       // 메타데이터 생성
@@ -468,6 +655,7 @@ export default function Home() {
         name: nftName,
         description: nftDescription || `${nftName} NFT`,
         image: getIPFSUrl(imageHash),
+        ...(attributes.length > 0 && { attributes }),
       }
 
       // 메타데이터를 IPFS에 업로드
@@ -477,25 +665,33 @@ export default function Home() {
       setIsUploadingMetadata(false)
       setIsMinting(true)
 
-      // NFT 민팅
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = getContractWithSigner(signer)
+      // 예상 수수료 확인 후 NFT 민팅
+      const label = `${nftName.trim()} 민팅`
+      const overrides = await requestTransactionApproval({
+        network,
+        method: 'safeMint',
+        args: [recipient, metadataURI],
+        from: address,
+        label,
+      })
+      if (!overrides) return
+
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
 
-      const tx = await contract.safeMint(address, metadataURI)
-      await tx.wait()
-      alert('민팅이 완료되었습니다!')
+      const tx = await contract.safeMint(recipient, metadataURI, overrides)
+      trackTransaction(network, tx, { kind: 'mint', label })
 
-      // 상태 초기화
+      // 상태 초기화 (확정되면 목록을 다시 읽습니다)
       setImageHash(null)
       setImageUrl(null)
       setNftName('')
       setNftDescription('')
-      await loadData(address)
-      await loadAllNFTs()
-    } catch (error: any) {
+      setTraitRows([])
+      setMintRecipient('')
+    } catch (error) {
       console.error('Mint error:', error)
-      alert(error.message || '민팅에 실패했습니다.')
+      alert(formatError(error, '민팅에 실패했습니다.'))
     } finally {
       setIsUploadingMetadata(false)
       setIsMinting(false)
@@ -515,24 +711,37 @@ export default function Home() {
 
     try {
       setIsMinting(true)
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = getContractWithSigner(signer)
+      const recipient = await getMintRecipient()
+      const label = 'NFT 민팅 (Token URI)'
+      const overrides = await requestTransactionApproval({
+        network,
+        method: 'safeMint',
+        args: [recipient, mintTokenURI],
+        from: address,
+        label,
+      })
+      if (!overrides) return
 
-      const tx = await contract.safeMint(address, mintTokenURI)
-      await tx.wait()
-      alert('민팅이 완료되었습니다!')
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
+
+      const tx = await contract.safeMint(recipient, mintTokenURI, overrides)
+      trackTransaction(network, tx, { kind: 'mint', label })
       setMintTokenURI('')
-      await loadData(address)
-      await loadAllNFTs()
-    } catch (error: any) {
+      setMintRecipient('')
+    } catch (error) {
       console.error('Mint error:', error)
-      alert(error.message || '민팅에 실패했습니다.')
+      alert(formatError(error, '민팅에 실패했습니다.'))
     } finally {
       setIsMinting(false)
     }
   }
 
+  const handleBatchMinted = async () => {
+    await loadData(address)
+    await loadAllNFTs()
+  }
+
   const handleRefresh = async () => {
     if (address) {
       await loadData(address)
@@ -554,7 +763,7 @@ export default function Home() {
       return
     }
 
-    if (typeof window === 'undefined' || !window.ethereum) {
+    if (!hasWallet) {
       alert('MetaMask를 설치하고 활성화한 뒤 다시 시도해주세요.')
       return
     }
@@ -572,29 +781,35 @@ export default function Home() {
 
     try {
       setDelegateTransferTokenId(nft.tokenId)
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = getContractWithSigner(signer)
+      const label = `토큰 #${nft.tokenId} 대리전송`
+      const overrides = await requestTransactionApproval({
+        network,
+        method: SAFE_TRANSFER_FROM,
+        args: [nft.owner, to, nft.tokenId],
+        from: address,
+        label,
+      })
+      if (!overrides) return
+
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
 
-      const tx = await contract.safeTransferFrom(nft.owner, to, nft.tokenId)
-      await tx.wait()
-      alert('대리전송이 완료되었습니다!')
+      const tx = await contract.getFunction(SAFE_TRANSFER_FROM)(nft.owner, to, nft.tokenId, overrides)
+      trackTransaction(network, tx, { kind: 'transfer', label })
       setDelegateTargets((prev) => ({
         ...prev,
         [nft.tokenId]: '',
       }))
-      await loadApprovedNFTs({ skipAlert: true })
-      await loadAllNFTs()
-    } catch (error: any) {
+    } catch (error) {
       console.error('Delegate transfer error:', error)
-      alert(error.message || '대리전송에 실패했습니다.')
+      alert(formatError(error, '대리전송에 실패했습니다.'))
     } finally {
       setDelegateTransferTokenId(null)
     }
   }
 
   const renderBadges = (nft: NFTInfo) => {
-    const badges: Array<{ label: string; style: string }> = []
+    const badges: Array<{ label: string; style: string; title?: string }> = []
     if (address && nft.owner.toLowerCase() === address.toLowerCase()) {
       badges.push({
         label: '내 소유',
@@ -610,6 +825,20 @@ export default function Home() {
       })
     }
 
+    const rarity = collectionRarity?.tokens.get(nft.tokenId)
+    if (rarity) {
+      badges.push({
+        label: `희귀도 #${rarity.rank} · 상위 ${formatPercentile(rarity.percentile)}`,
+        style:
+          rarity.percentile <= 1
+            ? 'bg-yellow-400 text-zinc-900'
+            : rarity.percentile <= 10
+            ? 'bg-purple-600 text-white dark:bg-purple-500'
+            : 'bg-zinc-700 text-white dark:bg-zinc-600',
+        title: `희귀도 점수 ${rarity.score.toFixed(2)} (속성 개수 점수 ${rarity.traitCountScore.toFixed(2)})\n통계적 희귀도 #${rarity.statisticalRank} (${(rarity.statisticalRarity * 100).toPrecision(3)}%)\n${collectionRarity?.total}개 토큰 기준`,
+      })
+    }
+
     if (badges.length === 0) return null
 
     return (
@@ -617,6 +846,7 @@ export default function Home() {
         {badges.map((badge) => (
           <span
             key={`${nft.tokenId}-${badge.label}`}
+            title={badge.title}
             className={`px-2 py-1 text-xs font-semibold rounded-full shadow-sm ${badge.style}`}
           >
             {badge.label}
@@ -652,22 +882,70 @@ export default function Home() {
         )
       }
 
+      // 전송되어 더 이상 보유하지 않는 토큰은 선택에서 제외합니다.
+      const selectedIds = selectedTokenIds.filter((tokenId) =>
+        myNFTs.some((nft) => nft.tokenId === tokenId)
+      )
+
       return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {myNFTs.map((nft) => (
-            <div key={`my-${nft.tokenId}`} className="relative">
-              {renderBadges(nft)}
-              <NFTCard
-                tokenId={nft.tokenId}
-                owner={nft.owner}
-                tokenURI={nft.tokenURI}
-                currentAddress={address || ''}
-                onTransfer={handleRefresh}
-                onRefresh={handleRefresh}
-              />
-            </div>
-          ))}
-        </div>
+        <>
+          <div className="flex items-center gap-2 mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+            <button
+              onClick={() => setSelectedTokenIds(myNFTs.map(({ tokenId }) => tokenId))}
+              className="px-3 py-1 text-xs bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
+            >
+              전체 선택
+            </button>
+            {selectedIds.length > 0 && <span>{selectedIds.length}개 선택됨</span>}
+          </div>
+          {selectedIds.length > 0 && (
+            <BulkActionsPanel
+              network={network}
+              address={address}
+              tokenIds={selectedIds}
+              onClearSelection={() => setSelectedTokenIds([])}
+              onCompleted={() => {
+                loadData(address)
+                refreshActiveQuery()
+              }}
+            />
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {myNFTs.map((nft) => {
+              const isSelected = selectedIds.includes(nft.tokenId)
+              return (
+                <div
+                  key={`my-${nft.tokenId}`}
+                  className={`relative rounded-lg ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  {renderBadges(nft)}
+                  <NFTCard
+                    tokenId={nft.tokenId}
+                    owner={nft.owner}
+                    tokenURI={nft.tokenURI}
+                    currentAddress={address || ''}
+                    network={network}
+                    rarity={collectionRarity?.tokens.get(nft.tokenId)}
+                  />
+                  <label className="flex items-center gap-2 mt-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      onChange={() =>
+                        setSelectedTokenIds(
+                          isSelected
+                            ? selectedIds.filter((tokenId) => tokenId !== nft.tokenId)
+                            : [...selectedIds, nft.tokenId]
+                        )
+                      }
+                    />
+                    #{nft.tokenId} 선택
+                  </label>
+                </div>
+              )
+            })}
+          </div>
+        </>
       )
     }
 
@@ -689,20 +967,27 @@ export default function Home() {
       }
 
       return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {allNFTs.map((nft) => (
-            <div key={`all-${nft.tokenId}`} className="relative">
-              {renderBadges(nft)}
-              <NFTCard
-                tokenId={nft.tokenId}
-                owner={nft.owner}
-                tokenURI={nft.tokenURI}
-                currentAddress={address || ''}
-                onTransfer={handleRefresh}
-                onRefresh={handleRefresh}
-              />
-            </div>
-          ))}
+        <div>
+          {isComputingRarity && (
+            <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+              메타데이터를 모아 희귀도를 계산하는 중입니다...
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {allNFTs.map((nft) => (
+              <div key={`all-${nft.tokenId}`} className="relative">
+                {renderBadges(nft)}
+                <NFTCard
+                  tokenId={nft.tokenId}
+                  owner={nft.owner}
+                  tokenURI={nft.tokenURI}
+                  currentAddress={address || ''}
+                  network={network}
+                  rarity={collectionRarity?.tokens.get(nft.tokenId)}
+                />
+              </div>
+            ))}
+          </div>
         </div>
       )
     }
@@ -818,8 +1103,8 @@ export default function Home() {
               owner={nft.owner}
               tokenURI={nft.tokenURI}
               currentAddress={address || ''}
-              onTransfer={handleRefresh}
-              onRefresh={handleRefresh}
+              network={network}
+              rarity={collectionRarity?.tokens.get(nft.tokenId)}
             />
           </div>
         ))}
@@ -829,38 +1114,65 @@ export default function Home() {
 
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black py-8 px-4">
+      {pairingUri && (
+        <WalletConnectModal uri={pairingUri} onClose={handleClosePairing} />
+      )}
+      <TransactionPreviewDialog />
+      {address && <TransactionToasts network={network} account={address} />}
       <div className="max-w-6xl mx-auto">
         <div className="mb-8">
-          <h1 className="text-4xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">
-            ERC-721 NFT 테스트 앱
-          </h1>
+          <div className="flex items-start justify-between gap-4 flex-wrap mb-2">
+            <h1 className="text-4xl font-bold text-zinc-900 dark:text-zinc-50">
+              ERC-721 NFT 테스트 앱
+            </h1>
+            <select
+              value={network.key}
+              onChange={(e) => handleSelectNetwork(e.target.value)}
+              className="px-3 py-2 text-sm border rounded-lg bg-white dark:bg-zinc-900 dark:border-zinc-700 dark:text-zinc-50"
+            >
+              {NETWORKS.map((option) => (
+                <option
+                  key={option.key}
+                  value={option.key}
+                  disabled={!isNetworkDeployed(option)}
+                >
+                  {option.chainName}
+                  {!isNetworkDeployed(option) ? ' (미배포)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
           <p className="text-zinc-600 dark:text-zinc-400 mb-4">
-            Sepolia 테스트넷에서 NFT를 민팅하고 관리하세요
+            {network.chainName} 네트워크에서 NFT를 민팅하고 관리하세요
           </p>
           <div className="flex items-center gap-2 flex-wrap">
             <span className="text-sm text-zinc-500 dark:text-zinc-500">
               컨트랙트 주소:
             </span>
             <span className="text-sm font-mono text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 px-3 py-1 rounded">
-              {contractAddress}
-            </span>
-            <a
-              href={`https://sepolia.etherscan.io/address/${contractAddress}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 underline"
-            >
-              Etherscan에서 보기
-            </a>
-          </div>
-          <div className='mt-2'>
-            <span className="text-sm text-zinc-500 dark:text-zinc-500">
-              owner 주소:
-            </span>
-            <span className="text-sm font-mono text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 px-3 py-1 rounded">
-              0x9f19f2781e0d66a75ec260c4bf44ac2ab0faabf8
+              {network.contractAddress}
             </span>
+            {getExplorerUrl(network, 'address', network.contractAddress) && (
+              <a
+                href={getExplorerUrl(network, 'address', network.contractAddress) ?? ''}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 underline"
+              >
+                익스플로러에서 보기
+              </a>
+            )}
           </div>
+          {contractOwner && (
+            <div className='mt-2'>
+              <span className="text-sm text-zinc-500 dark:text-zinc-500">
+                owner 주소:
+              </span>
+              <span className="text-sm font-mono text-zinc-700 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 px-3 py-1 rounded">
+                {contractOwner === ethers.ZeroAddress ? '없음 (소유권 포기됨)' : contractOwner}
+              </span>
+            </div>
+          )}
           <div className='mt-2'>
             <span className="text-sm text-zinc-500 dark:text-zinc-500">
               이름, 학번:
@@ -878,24 +1190,120 @@ export default function Home() {
               지갑 연결
             </h2>
             {address && (
-              <span className="text-sm text-zinc-600 dark:text-zinc-400">
-                {formatAddress(address)}
-              </span>
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-zinc-600 dark:text-zinc-400">
+                  {connectors.find((connector) => connector.id === connectorId)?.name}{' '}
+                  {formatAddress(address)}
+                </span>
+                <button
+                  onClick={handleDisconnect}
+                  className="px-3 py-1 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
+                >
+                  연결 해제
+                </button>
+              </div>
             )}
           </div>
           {!address ? (
-            <button
-              onClick={handleConnect}
-              disabled={isConnecting}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
-            >
-              {isConnecting ? '연결 중...' : 'MetaMask 연결'}
-            </button>
+            <div className="space-y-4">
+              {hasWallet ? (
+                <div className="flex flex-wrap gap-2">
+                  {connectors.map((connector) => (
+                    <button
+                      key={connector.id}
+                      onClick={() => handleConnect(connector.id)}
+                      disabled={isConnecting}
+                      className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+                    >
+                      {connector.icon && (
+                        <Image
+                          src={connector.icon}
+                          alt=""
+                          width={20}
+                          height={20}
+                          unoptimized
+                          className="w-5 h-5"
+                        />
+                      )}
+                      {isConnecting && connector.id === connectorId
+                        ? '연결 중...'
+                        : `${connector.name} 연결`}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  disabled
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg disabled:opacity-50 font-medium"
+                >
+                  MetaMask 연결
+                </button>
+              )}
+              <div className="p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg text-sm text-zinc-600 dark:text-zinc-400">
+                <p className="font-medium text-zinc-700 dark:text-zinc-300">
+                  읽기 전용 모드
+                </p>
+                <p className="mt-1">
+                  {hasWallet
+                    ? '지갑을 연결하지 않아도 전체 NFT와 Token ID 조회를 사용할 수 있습니다.'
+                    : '지갑이 설치되어 있지 않아 공개 RPC로 조회합니다. 민팅·전송·승인은 지갑을 설치한 뒤 사용할 수 있습니다.'}
+                </p>
+                {contractInfo && (
+                  <p className="mt-1">
+                    컨트랙트: {contractInfo.name} ({contractInfo.symbol})
+                  </p>
+                )}
+              </div>
+            </div>
           ) : (
             <div className="space-y-4">
+              {walletChainId !== null && walletChainId !== network.chainId && (
+                <div className="flex items-center justify-between gap-2 flex-wrap p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
+                  <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    지갑이 {getNetworkByChainId(walletChainId)?.chainName ?? `지원하지 않는 네트워크 (Chain ID ${walletChainId})`}에
+                    연결되어 있습니다.
+                  </p>
+                  <button
+                    onClick={() =>
+                      switchNetwork(network).catch((error) =>
+                        alert(formatError(error, '네트워크 전환에 실패했습니다.'))
+                      )
+                    }
+                    className="px-3 py-1 text-sm bg-yellow-600 text-white rounded hover:bg-yellow-700 transition-colors"
+                  >
+                    {network.chainName}(으)로 전환
+                  </button>
+                </div>
+              )}
               <div className="text-sm text-zinc-600 dark:text-zinc-400">
                 연결된 주소: <span className="font-mono">{address}</span>
               </div>
+              <div className="flex items-center gap-3 flex-wrap text-sm text-zinc-600 dark:text-zinc-400">
+                {session ? (
+                  <>
+                    <span>
+                      로그인됨 (SIWE) · {new Date(session.expiresAt).toLocaleString()}까지
+                    </span>
+                    <button
+                      onClick={handleSignOut}
+                      className="px-3 py-1 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
+                    >
+                      로그아웃
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span>서버 기능(IPFS 업로드 등)을 사용하려면 지갑 서명으로 로그인하세요.</span>
+                    <button
+                      onClick={handleSignIn}
+                      disabled={isSigningIn}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      {isSigningIn ? '서명 대기 중...' : '이더리움으로 로그인'}
+                    </button>
+                  </>
+                )}
+              </div>
               <div className="text-sm text-zinc-600 dark:text-zinc-400">
                 보유 NFT 수: {balance.toString()}
               </div>
@@ -904,12 +1312,39 @@ export default function Home() {
                   컨트랙트: {contractInfo.name} ({contractInfo.symbol})
                 </div>
               )}
+              <PendingTransactionsPanel network={network} address={address} />
             </div>
           )}
         </div>
 
+        {/* 관리자 섹션 (컨트랙트 소유자만) */}
+        {address && contractInfo && contractOwner?.toLowerCase() === address.toLowerCase() && (
+          <AdminPanel
+            network={network}
+            owner={contractOwner}
+            contractName={contractInfo.name}
+          />
+        )}
+
+        {/* 승인 관리 */}
+        {address && <ApprovalsDashboard network={network} address={address} />}
+
+        {address && !canMint && (
+          <div className="bg-white dark:bg-zinc-900 rounded-lg p-6 mb-6 border border-zinc-200 dark:border-zinc-800">
+            <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50 mb-2">
+              NFT 민팅
+            </h2>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              이 컨트랙트는 소유자만 민팅할 수 있습니다. 현재 소유자:{' '}
+              <span className="font-mono">
+                {contractOwner === ethers.ZeroAddress ? '없음 (소유권 포기됨)' : contractOwner}
+              </span>
+            </p>
+          </div>
+        )}
+
         {/* 민팅 섹션 */}
-        {address && (
+        {canMint && (
           <div className="bg-white dark:bg-zinc-900 rounded-lg p-6 mb-6 border border-zinc-200 dark:border-zinc-800">
             <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
               NFT 민팅
@@ -947,26 +1382,64 @@ export default function Home() {
               >
                 URI 직접 입력
               </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault()
+                  setMintMode('batch')
+                }}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer ${
+                  mintMode === 'batch'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600'
+                }`}
+              >
+                일괄 민팅
+              </button>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault()
+                  setMintMode('airdrop')
+                }}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors cursor-pointer ${
+                  mintMode === 'airdrop'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600'
+                }`}
+              >
+                에어드롭
+              </button>
             </div>
 
-            {mintMode === 'image' ? (
+            {(mintMode === 'image' || mintMode === 'batch') && !session && (
+              <div className="mb-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
+                <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200 mb-2">
+                  ⚠️ 로그인이 필요합니다
+                </p>
+                <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                  IPFS 업로드는 서버를 거쳐 처리되므로 지갑 연결 섹션에서
+                  &apos;이더리움으로 로그인&apos;을 먼저 진행해주세요.
+                </p>
+              </div>
+            )}
+
+            {mintMode === 'airdrop' ? (
+              <AirdropPanel
+                address={address}
+                network={network}
+                disabled={isMinting || isUploadingMetadata}
+                onMinted={handleBatchMinted}
+              />
+            ) : mintMode === 'batch' ? (
+              <BatchMintWizard
+                address={address}
+                network={network}
+                disabled={isMinting || isUploadingMetadata}
+                onMinted={handleBatchMinted}
+              />
+            ) : mintMode === 'image' ? (
               <div className="space-y-4">
-                {!process.env.NEXT_PUBLIC_PINATA_JWT ||
-                process.env.NEXT_PUBLIC_PINATA_JWT ===
-                  'your_pinata_jwt_token_here' ? (
-                  <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
-                    <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200 mb-2">
-                      ⚠️ Pinata JWT가 설정되지 않았습니다
-                    </p>
-                    <p className="text-xs text-yellow-700 dark:text-yellow-300 mb-2">
-                      이미지 업로드를 사용하려면 .env.local 파일에
-                      NEXT_PUBLIC_PINATA_JWT를 설정해야 합니다.
-                    </p>
-                    <p className="text-xs text-yellow-700 dark:text-yellow-300">
-                      자세한 설정 방법은 IPFS_SETUP.md 파일을 참고하세요.
-                    </p>
-                  </div>
-                ) : null}
                 <ImageUpload
                   onImageUploaded={handleImageUploaded}
                   disabled={isMinting || isUploadingMetadata}
@@ -998,6 +1471,17 @@ export default function Home() {
                         className="w-full px-4 py-2 border rounded-lg dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
                       />
                     </div>
+                    <TraitsEditor
+                      rows={traitRows}
+                      onChange={setTraitRows}
+                      disabled={isMinting || isUploadingMetadata}
+                    />
+                    <RecipientInput
+                      value={mintRecipient}
+                      onChange={setMintRecipient}
+                      defaultAddress={formatAddress(address)}
+                      disabled={isMinting || isUploadingMetadata}
+                    />
                     <button
                       onClick={handleMintWithImage}
                       disabled={
@@ -1031,6 +1515,12 @@ export default function Home() {
                     IPFS URI (ipfs://) 또는 HTTP URL을 입력하세요
                   </p>
                 </div>
+                <RecipientInput
+                  value={mintRecipient}
+                  onChange={setMintRecipient}
+                  defaultAddress={formatAddress(address)}
+                  disabled={isMinting}
+                />
                 <button
                   onClick={handleMintWithURI}
                   disabled={isMinting}
@@ -1136,8 +1626,8 @@ export default function Home() {
               .env.local에 설정하세요
             </li>
             <li>
-              • <strong>지갑 연결:</strong> MetaMask를 설치하고 Sepolia
-              테스트넷으로 전환하세요
+              • <strong>지갑 연결:</strong> MetaMask를 설치하고 상단에서 사용할
+              네트워크를 선택하세요
             </li>
             <li>
               • <strong>이미지 업로드:</strong> "이미지 업로드 방식"으로 사진을
@@ -1160,7 +1650,7 @@ export default function Home() {
               사용할 수 있습니다
             </li>
             <li>
-              • <strong>가스비:</strong> Sepolia 테스트넷 ETH가 필요합니다
+              • <strong>가스비:</strong> 선택한 네트워크의 {network.nativeCurrency.symbol}가 필요합니다
             </li>
             <li>• 자세한 설정 방법은 IPFS_SETUP.md 파일을 참고하세요</li>
           </ul>
@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { getContractWithSigner } from '@/lib/contract'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import { OwnershipTransfer, fetchOwnershipHistory } from '@/lib/ownership'
+import { resolveRecipient } from '@/lib/recipient'
+import { formatAddress, getReadProvider, getSigner } from '@/lib/web3'
+import { formatError } from '@/lib/errors'
+import { trackTransaction } from '@/lib/transactions'
+import RecipientInput from '@/components/RecipientInput'
+
+interface AdminPanelProps {
+  network: NetworkConfig
+  owner: string
+  contractName: string
+}
+
+type AdminAction = 'transfer' | 'renounce'
+
+export default function AdminPanel({
+  network,
+  owner,
+  contractName,
+}: AdminPanelProps) {
+  const [history, setHistory] = useState<OwnershipTransfer[]>([])
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+  const [action, setAction] = useState<AdminAction | null>(null)
+  const [newOwnerInput, setNewOwnerInput] = useState('')
+  const [confirmText, setConfirmText] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // 소유권 이전 기록 조회
+  useEffect(() => {
+    let cancelled = false
+
+    const loadHistory = async () => {
+      try {
+        setIsLoadingHistory(true)
+        const provider = await getReadProvider(network)
+        const transfers = await fetchOwnershipHistory(provider, network)
+        if (!cancelled) setHistory(transfers)
+      } catch (error) {
+        console.error('소유권 기록 조회 오류:', error)
+        if (!cancelled) setHistory([])
+      } finally {
+        if (!cancelled) setIsLoadingHistory(false)
+      }
+    }
+
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [network, owner])
+
+  // 실수 방지를 위해 이전은 새 소유자 주소를, 포기는 컨트랙트 이름을 직접 입력해야 합니다.
+  const expectedConfirmation = action === 'renounce' ? contractName : newOwnerInput.trim()
+  const isConfirmed =
+    !!expectedConfirmation &&
+    confirmText.trim().toLowerCase() === expectedConfirmation.toLowerCase()
+
+  const closeAction = () => {
+    setAction(null)
+    setNewOwnerInput('')
+    setConfirmText('')
+  }
+
+  const handleSubmit = async () => {
+    if (!isConfirmed) return
+
+    try {
+      setIsSubmitting(true)
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
+
+      let tx: ethers.TransactionResponse
+      if (action === 'transfer') {
+        const { address: newOwner } = await resolveRecipient(newOwnerInput)
+        if (newOwner === owner) {
+          alert('현재 소유자와 같은 주소입니다.')
+          return
+        }
+        tx = await contract.transferOwnership(newOwner)
+      } else {
+        tx = await contract.renounceOwnership()
+      }
+      trackTransaction(network, tx, {
+        kind: 'ownership',
+        label: action === 'transfer' ? '소유권 이전' : '소유권 포기',
+      })
+      closeAction()
+    } catch (error) {
+      console.error('Ownership error:', error)
+      alert(formatError(error, '소유권 변경에 실패했습니다.'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const ownerUrl = getExplorerUrl(network, 'address', owner)
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-lg p-6 mb-6 border border-red-200 dark:border-red-900">
+      <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50 mb-1">관리자</h2>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+        현재 소유자:{' '}
+        {ownerUrl ? (
+          <a
+            href={ownerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {owner}
+          </a>
+        ) : (
+          <span className="font-mono">{owner}</span>
+        )}{' '}
+        (연결된 지갑)
+      </p>
+
+      {!action && (
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setAction('transfer')}
+            className="px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+          >
+            소유권 이전
+          </button>
+          <button
+            onClick={() => setAction('renounce')}
+            className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            소유권 포기
+          </button>
+        </div>
+      )}
+
+      {action && (
+        <div className="space-y-3 p-4 mb-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+          <p className="text-sm text-red-800 dark:text-red-200">
+            {action === 'transfer'
+              ? '새 소유자만 민팅과 관리 기능을 사용할 수 있게 됩니다. 잘못된 주소로 이전하면 되돌릴 수 없습니다.'
+              : '소유자가 0x0 주소가 되어 누구도 민팅하거나 소유권을 되찾을 수 없습니다. 되돌릴 수 없습니다.'}
+          </p>
+          {action === 'transfer' && (
+            <RecipientInput
+              value={newOwnerInput}
+              onChange={setNewOwnerInput}
+              label="새 소유자"
+              disabled={isSubmitting}
+            />
+          )}
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+              확인을 위해{' '}
+              <span className="font-mono font-semibold">
+                {action === 'renounce' ? contractName : '새 소유자 주소(또는 ENS)'}
+              </span>
+              을(를) 다시 입력하세요
+            </label>
+            <input
+              type="text"
+              value={confirmText}
+              onChange={(e) => setConfirmText(e.target.value)}
+              disabled={isSubmitting}
+              className="w-full px-4 py-2 border rounded-lg dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSubmit}
+              disabled={!isConfirmed || isSubmitting}
+              className="flex-1 px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting
+                ? '처리 중...'
+                : action === 'transfer'
+                ? '소유권 이전하기'
+                : '소유권 포기하기'}
+            </button>
+            <button
+              onClick={closeAction}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-400 dark:hover:bg-zinc-600 transition-colors"
+            >
+              취소
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+        소유권 이전 기록
+      </h3>
+      {isLoadingHistory ? (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">기록을 불러오는 중...</p>
+      ) : history.length === 0 ? (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">기록이 없습니다.</p>
+      ) : (
+        <ul className="space-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+          {history.map((transfer) => {
+            const txUrl = getExplorerUrl(network, 'tx', transfer.transactionHash)
+            return (
+              <li key={`${transfer.transactionHash}-${transfer.newOwner}`} className="font-mono">
+                {transfer.timestamp ? new Date(transfer.timestamp).toLocaleString() : `#${transfer.blockNumber}`}{' '}
+                ·{' '}
+                {transfer.previousOwner === ethers.ZeroAddress
+                  ? '배포'
+                  : formatAddress(transfer.previousOwner)}{' '}
+                →{' '}
+                {transfer.newOwner === ethers.ZeroAddress ? '포기 (0x0)' : formatAddress(transfer.newOwner)}
+                {txUrl && (
+                  <a
+                    href={txUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    tx
+                  </a>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { ethers } from 'ethers'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import { formatAddress } from '@/lib/web3'
+import { formatError } from '@/lib/errors'
+import {
+  AirdropItem,
+  AirdropPreview,
+  AirdropStatus,
+  executeAirdrop,
+  parseAirdropList,
+  prepareAirdrop,
+  toAirdropReportCSV,
+} from '@/lib/airdrop'
+
+interface AirdropPanelProps {
+  address: string
+  network: NetworkConfig
+  disabled?: boolean
+  onMinted: () => void
+}
+
+const STATUS_LABELS: Record<AirdropStatus, { label: string; style: string }> = {
+  ready: { label: '대기', style: 'text-zinc-500 dark:text-zinc-400' },
+  invalid: { label: '제외', style: 'text-red-600 dark:text-red-400' },
+  minting: { label: '민팅 중', style: 'text-amber-600 dark:text-amber-400' },
+  minted: { label: '완료', style: 'text-green-600 dark:text-green-400' },
+  failed: { label: '실패', style: 'text-red-600 dark:text-red-400' },
+}
+
+// 목록 파일은 텍스트이므로 크기를 넉넉히 제한합니다.
+const MAX_LIST_FILE_SIZE = 1024 * 1024
+
+export default function AirdropPanel({ address, network, disabled, onMinted }: AirdropPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [listText, setListText] = useState('')
+  const [preview, setPreview] = useState<AirdropPreview | null>(null)
+  const [items, setItems] = useState<AirdropItem[]>([])
+  const [isPreparing, setIsPreparing] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [hasRun, setHasRun] = useState(false)
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<AirdropStatus, number>> = {}
+    for (const { status } of items) result[status] = (result[status] ?? 0) + 1
+    return result
+  }, [items])
+
+  const handleListChange = (text: string) => {
+    setListText(text)
+    setPreview(null)
+    setItems([])
+    setHasRun(false)
+  }
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (file.size > MAX_LIST_FILE_SIZE) {
+      alert('목록 파일이 너무 큽니다.')
+      return
+    }
+    handleListChange(await file.text())
+  }
+
+  const handlePrepare = async () => {
+    if (!address) {
+      alert('먼저 지갑을 연결해주세요.')
+      return
+    }
+
+    try {
+      const entries = parseAirdropList(listText)
+      if (entries.length === 0) {
+        alert('에어드롭 목록을 입력해주세요.')
+        return
+      }
+
+      setIsPreparing(true)
+      const result = await prepareAirdrop(network, entries, address)
+      setPreview(result)
+      setItems(result.items)
+      setHasRun(false)
+    } catch (error) {
+      console.error('Airdrop prepare error:', error)
+      alert(formatError(error, '에어드롭 목록 검증에 실패했습니다.'))
+    } finally {
+      setIsPreparing(false)
+    }
+  }
+
+  const handleExecute = async () => {
+    const readyCount = items.filter(({ status }) => status === 'ready' || status === 'failed').length
+    if (readyCount === 0) {
+      alert('민팅할 항목이 없습니다.')
+      return
+    }
+    if (!confirm(`${readyCount}개 NFT를 에어드롭합니다. 지갑에서 트랜잭션을 차례로 승인해주세요.`)) {
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    try {
+      setIsRunning(true)
+      const result = await executeAirdrop(network, items, {
+        onUpdate: setItems,
+        signal: controller.signal,
+      })
+      setHasRun(true)
+      const minted = result.filter(({ status }) => status === 'minted').length
+      alert(`에어드롭 완료: ${minted}/${readyCount}개 민팅되었습니다.`)
+      onMinted()
+    } catch (error) {
+      console.error('Airdrop error:', error)
+      alert(formatError(error, '에어드롭에 실패했습니다.'))
+    } finally {
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    const blob = new Blob([toAirdropReportCSV(items)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `airdrop-${network.key}-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const estimatedCost =
+    preview?.feePerGas != null ? preview.totalGas * preview.feePerGas : null
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            에어드롭 목록 (한 줄에 주소,tokenURI)
+          </label>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || isRunning}
+            className="px-2 py-1 text-xs bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+          >
+            파일 불러오기
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+        <textarea
+          value={listText}
+          onChange={(e) => handleListChange(e.target.value)}
+          placeholder={'0x1234...abcd,ipfs://bafy.../1.json\nvitalik.eth,ipfs://bafy.../2.json'}
+          rows={6}
+          disabled={disabled || isRunning}
+          className="w-full px-4 py-2 border rounded-lg font-mono text-xs dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+        />
+      </div>
+
+      <button
+        onClick={handlePrepare}
+        disabled={disabled || isPreparing || isRunning || !listText.trim()}
+        className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+      >
+        {isPreparing ? '검증 및 가스 추정 중...' : '검증 및 비용 미리보기'}
+      </button>
+
+      {preview && (
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 space-y-2 text-sm">
+          <p className="text-blue-800 dark:text-blue-200">
+            민팅 가능 {preview.items.filter(({ gasEstimate }) => gasEstimate !== undefined).length}개
+            {counts.invalid ? ` · 제외 ${counts.invalid}개` : ''}
+            {preview.duplicates > 0 ? ` · 중복 제거 ${preview.duplicates}줄` : ''}
+          </p>
+          <p className="text-xs text-zinc-600 dark:text-zinc-400">
+            예상 가스 {preview.totalGas.toLocaleString()}
+            {estimatedCost !== null &&
+              ` · 최대 약 ${Number(ethers.formatEther(estimatedCost)).toFixed(6)} ${
+                network.nativeCurrency.symbol
+              } (가스당 ${ethers.formatUnits(preview.feePerGas ?? 0n, 'gwei')} gwei)`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExecute}
+              disabled={disabled || isRunning}
+              className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
+            >
+              {isRunning
+                ? `민팅 중... (${counts.minted ?? 0}/${items.length - (counts.invalid ?? 0)})`
+                : '에어드롭 실행'}
+            </button>
+            {isRunning && (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-4 py-3 bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-400 dark:hover:bg-zinc-600 transition-colors"
+              >
+                중지
+              </button>
+            )}
+            {hasRun && !isRunning && (
+              <button
+                onClick={handleDownloadReport}
+                className="px-4 py-3 bg-zinc-700 text-white rounded-lg hover:bg-zinc-800 transition-colors"
+              >
+                결과 보고서 (CSV)
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="max-h-80 overflow-y-auto border rounded-lg border-zinc-200 dark:border-zinc-700">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300">
+              <tr>
+                <th className="px-2 py-1 text-left">줄</th>
+                <th className="px-2 py-1 text-left">받는 주소</th>
+                <th className="px-2 py-1 text-left">tokenURI</th>
+                <th className="px-2 py-1 text-left">상태</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const txUrl = item.txHash ? getExplorerUrl(network, 'tx', item.txHash) : null
+                return (
+                  <tr key={item.line} className="border-t border-zinc-200 dark:border-zinc-700">
+                    <td className="px-2 py-1 text-zinc-500">{item.line}</td>
+                    <td className="px-2 py-1 font-mono text-zinc-700 dark:text-zinc-300">
+                      {item.ensName ?? (item.address ? formatAddress(item.address) : item.recipient)}
+                    </td>
+                    <td className="px-2 py-1 text-zinc-600 dark:text-zinc-400 break-all">
+                      {item.tokenURI.length > 40 ? `${item.tokenURI.slice(0, 40)}...` : item.tokenURI}
+                    </td>
+                    <td className={`px-2 py-1 ${STATUS_LABELS[item.status].style}`}>
+                      {STATUS_LABELS[item.status].label}
+                      {item.tokenId && ` (#${item.tokenId})`}
+                      {txUrl && (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          tx
+                        </a>
+                      )}
+                      {item.error && (
+                        <span className="block text-red-600 dark:text-red-400 break-all">
+                          {item.error}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { ApprovalsOverview, SpenderInfo, classifySpenders, fetchApprovals } from '@/lib/approvals'
+import { getContractWithSigner } from '@/lib/contract'
+import { formatError } from '@/lib/errors'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import { PreflightMethod, requestTransactionApproval } from '@/lib/preflight'
+import { resolveRecipient } from '@/lib/recipient'
+import { onTransactionSettled, trackTransaction } from '@/lib/transactions'
+import { formatAddress, getReadProvider, getSigner } from '@/lib/web3'
+import RecipientInput from '@/components/RecipientInput'
+
+interface ApprovalsDashboardProps {
+  network: NetworkConfig
+  address: string
+}
+
+function SpenderLabel({ network, spender }: { network: NetworkConfig; spender: SpenderInfo }) {
+  const url = getExplorerUrl(network, 'address', spender.address)
+  return (
+    <span className="inline-flex items-center gap-2 flex-wrap">
+      {url ? (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {formatAddress(spender.address)}
+        </a>
+      ) : (
+        <span className="font-mono">{formatAddress(spender.address)}</span>
+      )}
+      {spender.type === 'known' && (
+        <span className="px-2 py-0.5 text-xs rounded bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+          {spender.name}
+        </span>
+      )}
+      {spender.type === 'wallet' && (
+        <span className="px-2 py-0.5 text-xs rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300">
+          지갑 주소
+        </span>
+      )}
+      {spender.type === 'contract' && (
+        <span className="px-2 py-0.5 text-xs rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+          ⚠ 확인되지 않은 컨트랙트
+        </span>
+      )}
+    </span>
+  )
+}
+
+export default function ApprovalsDashboard({ network, address }: ApprovalsDashboardProps) {
+  const [overview, setOverview] = useState<ApprovalsOverview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [operatorInput, setOperatorInput] = useState('')
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  // 새로고침 버튼을 누르면 값을 올려 다시 조회합니다.
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadApprovals = async () => {
+      try {
+        setIsLoading(true)
+        const provider = await getReadProvider(network)
+        const next = await fetchApprovals(provider, network, address)
+        if (!cancelled) setOverview(next)
+      } catch (error) {
+        console.error('승인 현황 조회 오류:', error)
+        if (!cancelled) setOverview(null)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadApprovals()
+    // 승인 관련 트랜잭션이 확정되면 다시 조회
+    const unsubscribe = onTransactionSettled((tx) => {
+      if (tx.chainId === network.chainId && tx.kind === 'approve') loadApprovals()
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [network, address, reloadKey])
+
+  const sendApproval = async (
+    key: string,
+    label: string,
+    method: PreflightMethod,
+    args: unknown[]
+  ) => {
+    try {
+      setBusyKey(key)
+      const overrides = await requestTransactionApproval({ network, method, args, from: address, label })
+      if (!overrides) return false
+
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
+      const tx = await contract.getFunction(method)(...args, overrides)
+      trackTransaction(network, tx, { kind: 'approve', label })
+      return true
+    } catch (error) {
+      console.error('Approval error:', error)
+      alert(formatError(error, '승인 변경에 실패했습니다.'))
+      return false
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleGrantOperator = async () => {
+    let spender: SpenderInfo
+    try {
+      const { address: operator } = await resolveRecipient(operatorInput)
+      if (operator.toLowerCase() === address.toLowerCase()) {
+        alert('자기 자신은 운영자로 지정할 수 없습니다.')
+        return
+      }
+      const provider = await getReadProvider(network)
+      spender = (await classifySpenders(provider, network, [operator])).get(operator) as SpenderInfo
+    } catch (error) {
+      alert(formatError(error, '운영자 주소를 확인하지 못했습니다.'))
+      return
+    }
+
+    const warning =
+      spender.type === 'contract'
+        ? '\n\n⚠ 확인되지 않은 컨트랙트입니다. 신뢰할 수 있는 서비스인지 반드시 확인하세요.'
+        : ''
+    if (
+      !confirm(
+        `${spender.name ?? spender.address}에게 이 컬렉션의 모든 NFT를 전송할 수 있는 권한을 부여합니다.${warning}`
+      )
+    ) {
+      return
+    }
+
+    const sent = await sendApproval(
+      'grant',
+      `${formatAddress(spender.address)} 전체 승인`,
+      'setApprovalForAll',
+      [spender.address, true]
+    )
+    if (sent) setOperatorInput('')
+  }
+
+  const tokenApprovals = overview?.tokenApprovals ?? []
+  const operators = overview?.operators ?? []
+  const riskyCount = [...operators, ...tokenApprovals.map(({ spender }) => spender)].filter(
+    ({ type }) => type === 'contract'
+  ).length
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-lg p-6 mb-6 border border-zinc-200 dark:border-zinc-800">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50">승인 관리</h2>
+        <button
+          onClick={() => setReloadKey((key) => key + 1)}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-800 dark:text-zinc-200 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+        >
+          {isLoading ? '조회 중...' : '새로고침'}
+        </button>
+      </div>
+
+      {riskyCount > 0 && (
+        <p className="mb-4 p-3 text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded-lg border border-red-200 dark:border-red-800">
+          확인되지 않은 컨트랙트에 부여한 승인이 {riskyCount}개 있습니다. 사용하지 않는 승인은 철회하세요.
+        </p>
+      )}
+
+      <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+        전체 승인 (운영자)
+      </h3>
+      {operators.length === 0 ? (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-4">
+          {isLoading ? '불러오는 중...' : '전체 승인한 주소가 없습니다.'}
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {operators.map((operator) => (
+            <li
+              key={operator.address}
+              className="flex items-center justify-between gap-2 flex-wrap text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              <SpenderLabel network={network} spender={operator} />
+              <button
+                onClick={() =>
+                  sendApproval(
+                    `operator:${operator.address}`,
+                    `${formatAddress(operator.address)} 전체 승인 철회`,
+                    'setApprovalForAll',
+                    [operator.address, false]
+                  )
+                }
+                disabled={busyKey !== null}
+                className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                {busyKey === `operator:${operator.address}` ? '처리 중...' : '철회'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">토큰별 승인</h3>
+      {tokenApprovals.length === 0 ? (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-4">
+          {isLoading ? '불러오는 중...' : '승인한 토큰이 없습니다.'}
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {tokenApprovals.map(({ tokenId, spender }) => (
+            <li
+              key={tokenId}
+              className="flex items-center justify-between gap-2 flex-wrap text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              <span className="inline-flex items-center gap-2 flex-wrap">
+                <span className="font-medium">#{tokenId}</span>→
+                <SpenderLabel network={network} spender={spender} />
+              </span>
+              <button
+                onClick={() =>
+                  sendApproval(`token:${tokenId}`, `토큰 #${tokenId} 승인 철회`, 'approve', [
+                    ethers.ZeroAddress,
+                    tokenId,
+                  ])
+                }
+                disabled={busyKey !== null}
+                className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                {busyKey === `token:${tokenId}` ? '처리 중...' : '철회'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="pt-4 border-t border-zinc-200 dark:border-zinc-800 space-y-2">
+        <RecipientInput
+          value={operatorInput}
+          onChange={setOperatorInput}
+          label="운영자 추가 (setApprovalForAll)"
+          disabled={busyKey !== null}
+        />
+        <button
+          onClick={handleGrantOperator}
+          disabled={busyKey !== null || !operatorInput.trim()}
+          className="w-full px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors"
+        >
+          {busyKey === 'grant' ? '처리 중...' : '전체 승인 부여'}
+        </button>
+      </div>
+    </div>
+  )
+}
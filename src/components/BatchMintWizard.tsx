@@ -0,0 +1,378 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { formatAddress } from '@/lib/web3'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import { formatError } from '@/lib/errors'
+import {
+  ManifestEntry,
+  ManifestError,
+  indexFiles,
+  parseManifest,
+  validateManifest,
+} from '@/lib/manifest'
+import {
+  BatchItemStatus,
+  BatchJob,
+  clearBatchJob,
+  createBatchJob,
+  getBatchJobId,
+  isBatchJobFinished,
+  loadBatchJob,
+  mintBatchItems,
+  saveBatchJob,
+  uploadBatchItems,
+} from '@/lib/batchMint'
+
+interface BatchMintWizardProps {
+  address: string
+  network: NetworkConfig
+  disabled?: boolean
+  onMinted: () => void
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; style: string }> = {
+  pending: { label: '대기', style: 'text-zinc-500 dark:text-zinc-400' },
+  uploading: { label: '업로드 중', style: 'text-blue-600 dark:text-blue-400' },
+  uploaded: { label: '민팅 대기', style: 'text-indigo-600 dark:text-indigo-400' },
+  minting: { label: '민팅 중', style: 'text-amber-600 dark:text-amber-400' },
+  minted: { label: '완료', style: 'text-green-600 dark:text-green-400' },
+  failed: { label: '실패', style: 'text-red-600 dark:text-red-400' },
+}
+
+const isManifestFile = (file: File) => /\.(csv|json)$/i.test(file.name)
+
+export default function BatchMintWizard({
+  address,
+  network,
+  disabled,
+  onMinted,
+}: BatchMintWizardProps) {
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [images, setImages] = useState<Map<string, File>>(new Map())
+  const [manifestFile, setManifestFile] = useState<File | null>(null)
+  const [entries, setEntries] = useState<ManifestEntry[]>([])
+  const [errors, setErrors] = useState<ManifestError[]>([])
+  const [job, setJob] = useState<BatchJob | null>(null)
+  const [savedJob, setSavedJob] = useState<BatchJob | null>(null)
+  const [phase, setPhase] = useState<'idle' | 'uploading' | 'minting'>('idle')
+
+  // React 타입에 없는 속성이라 직접 지정합니다.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  // 네트워크별로 저장된 미완료 작업 확인
+  useEffect(() => {
+    setSavedJob(loadBatchJob(network))
+    setJob(null)
+  }, [network])
+
+  // 폴더와 매니페스트가 준비되면 모든 항목을 미리 검증
+  useEffect(() => {
+    if (!manifestFile) return
+    let cancelled = false
+
+    const readManifest = async () => {
+      try {
+        const parsed = parseManifest(manifestFile.name, await manifestFile.text())
+        if (cancelled) return
+        setEntries(parsed)
+        setErrors(validateManifest(parsed, images))
+      } catch (error) {
+        if (cancelled) return
+        setEntries([])
+        setErrors([{ row: 0, message: (error as Error).message }])
+      }
+    }
+
+    readManifest()
+    return () => {
+      cancelled = true
+    }
+  }, [manifestFile, images])
+
+  const jobId = useMemo(
+    () => (entries.length > 0 && errors.length === 0 ? getBatchJobId(entries, images) : null),
+    [entries, errors, images]
+  )
+  const isResumable = !!jobId && savedJob?.id === jobId
+
+  const summary = useMemo(() => {
+    const counts: Partial<Record<BatchItemStatus, number>> = {}
+    for (const { status } of job?.items ?? []) counts[status] = (counts[status] ?? 0) + 1
+    return counts
+  }, [job])
+
+  const isRunning = phase !== 'idle'
+
+  const handleSelectFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) return
+
+    setImages(indexFiles(files.filter((file) => !isManifestFile(file))))
+    // 폴더에 매니페스트가 있으면 자동으로 사용합니다.
+    const manifest = files.find(isManifestFile)
+    if (manifest) setManifestFile(manifest)
+    setJob(null)
+  }
+
+  const handleSelectManifest = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) {
+      setManifestFile(file)
+      setJob(null)
+    }
+  }
+
+  const prepareJob = () => {
+    if (!jobId) return null
+    if (isResumable && savedJob) return savedJob
+
+    if (savedJob && !isBatchJobFinished(savedJob)) {
+      const confirmed = confirm(
+        '이 네트워크에 완료되지 않은 다른 일괄 민팅 작업이 있습니다.\n새 작업을 시작하면 이전 진행 기록이 사라집니다. 계속할까요?'
+      )
+      if (!confirmed) return null
+    }
+    const created = createBatchJob(jobId, entries, network, address)
+    saveBatchJob(network, created)
+    setSavedJob(created)
+    return created
+  }
+
+  const handleStart = async () => {
+    if (!address) {
+      alert('먼저 지갑을 연결해주세요.')
+      return
+    }
+
+    const prepared = prepareJob()
+    if (!prepared) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    const options = {
+      signal: controller.signal,
+      onUpdate: (next: BatchJob) => {
+        setJob(next)
+        setSavedJob(next)
+      },
+    }
+
+    try {
+      setJob(prepared)
+      setPhase('uploading')
+      let current = await uploadBatchItems(network, prepared, images, options)
+      if (controller.signal.aborted) return
+
+      setPhase('minting')
+      current = await mintBatchItems(network, current, options)
+
+      const failed = current.items.filter(({ status }) => status !== 'minted').length
+      if (failed === 0) {
+        alert(`${current.items.length}개 NFT 민팅이 모두 완료되었습니다!`)
+      } else {
+        alert(`민팅되지 않은 항목이 ${failed}개 있습니다. 다시 시작하면 남은 항목만 이어서 진행합니다.`)
+      }
+      onMinted()
+    } catch (error) {
+      console.error('Batch mint error:', error)
+      alert(`일괄 민팅이 중단되었습니다.\n${formatError(error, '알 수 없는 오류')}\n다시 시작하면 이어서 진행합니다.`)
+    } finally {
+      abortRef.current = null
+      setPhase('idle')
+    }
+  }
+
+  const handleStop = () => {
+    abortRef.current?.abort()
+  }
+
+  const handleReset = () => {
+    if (!confirm('저장된 일괄 민팅 진행 기록을 삭제할까요?')) return
+    clearBatchJob(network)
+    setSavedJob(null)
+    setJob(null)
+  }
+
+  const shownItems = job?.items ?? (isResumable ? savedJob?.items : undefined)
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-200 dark:border-zinc-700 text-xs text-zinc-600 dark:text-zinc-400 space-y-1">
+        <p>이미지 폴더와 CSV/JSON 매니페스트로 여러 NFT를 한 번에 민팅합니다.</p>
+        <p>
+          CSV 헤더 예: <code>file,name,description,recipient,trait:Background,trait:Level:number</code>
+        </p>
+        <p>recipient를 비워두면 연결된 지갑으로 민팅됩니다. 매니페스트를 폴더에 넣어두면 자동으로 인식합니다.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            이미지 폴더
+          </label>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            onChange={handleSelectFolder}
+            disabled={disabled || isRunning}
+            className="block w-full text-sm text-zinc-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
+          />
+          {images.size > 0 && (
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">이미지 {images.size}개</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            매니페스트 (CSV / JSON)
+          </label>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleSelectManifest}
+            disabled={disabled || isRunning}
+            className="block w-full text-sm text-zinc-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300"
+          />
+          {manifestFile && (
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              {manifestFile.name} · {entries.length}개 항목
+            </p>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200 mb-2">
+            매니페스트 오류 {errors.length}건 — 모두 수정해야 민팅할 수 있습니다.
+          </p>
+          <ul className="max-h-40 overflow-y-auto text-xs text-red-700 dark:text-red-300 space-y-1">
+            {errors.map(({ row, message }, i) => (
+              <li key={`${row}-${i}`} className="whitespace-pre-line">
+                {row > 0 ? `${row}행: ` : ''}
+                {message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {jobId && (
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 space-y-3">
+          <p className="text-sm text-blue-800 dark:text-blue-200">
+            {isResumable
+              ? `이전 작업을 이어서 진행합니다. (완료 ${
+                  (job ?? savedJob)?.items.filter(({ status }) => status === 'minted').length
+                }/${entries.length})`
+              : `${entries.length}개 항목 검증 완료. 업로드 후 ${entries.length}개의 민팅 트랜잭션을 차례로 승인해야 합니다.`}
+          </p>
+          {job && (
+            <div>
+              <div className="w-full h-2 bg-blue-100 dark:bg-blue-900 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-600 transition-all"
+                  style={{ width: `${((summary.minted ?? 0) / job.items.length) * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                {(Object.keys(STATUS_LABELS) as BatchItemStatus[])
+                  .filter((status) => summary[status])
+                  .map((status) => `${STATUS_LABELS[status].label} ${summary[status]}`)
+                  .join(' · ')}
+              </p>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleStart}
+              disabled={disabled || isRunning}
+              className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
+            >
+              {phase === 'uploading'
+                ? '업로드 중...'
+                : phase === 'minting'
+                ? '민팅 중...'
+                : isResumable
+                ? '이어서 진행'
+                : '일괄 민팅 시작'}
+            </button>
+            {isRunning && (
+              <button
+                onClick={handleStop}
+                className="px-4 py-3 bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-400 dark:hover:bg-zinc-600 transition-colors"
+              >
+                중지
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {savedJob && !isRunning && (
+        <button
+          onClick={handleReset}
+          className="text-xs text-zinc-500 dark:text-zinc-400 hover:underline"
+        >
+          저장된 진행 기록 삭제
+        </button>
+      )}
+
+      {shownItems && (
+        <div className="max-h-80 overflow-y-auto border rounded-lg border-zinc-200 dark:border-zinc-700">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300">
+              <tr>
+                <th className="px-2 py-1 text-left">행</th>
+                <th className="px-2 py-1 text-left">이름</th>
+                <th className="px-2 py-1 text-left">받는 주소</th>
+                <th className="px-2 py-1 text-left">상태</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownItems.map((item) => {
+                const txUrl = item.txHash ? getExplorerUrl(network, 'tx', item.txHash) : null
+                return (
+                  <tr key={item.row} className="border-t border-zinc-200 dark:border-zinc-700">
+                    <td className="px-2 py-1 text-zinc-500">{item.row}</td>
+                    <td className="px-2 py-1 text-zinc-900 dark:text-zinc-50">
+                      {item.name}
+                      <span className="block text-zinc-500">{item.file}</span>
+                    </td>
+                    <td className="px-2 py-1 font-mono text-zinc-600 dark:text-zinc-400">
+                      {formatAddress(item.recipient)}
+                    </td>
+                    <td className={`px-2 py-1 ${STATUS_LABELS[item.status].style}`}>
+                      {STATUS_LABELS[item.status].label}
+                      {item.tokenId && ` (#${item.tokenId})`}
+                      {txUrl && (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          tx
+                        </a>
+                      )}
+                      {item.error && (
+                        <span className="block text-red-600 dark:text-red-400 break-all">
+                          {item.error}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import { formatAddress } from '@/lib/web3'
+import { formatError } from '@/lib/errors'
+import { SAFE_TRANSFER_FROM } from '@/lib/contract'
+import { requestTransactionApproval } from '@/lib/preflight'
+import {
+  BULK_MODE_LABELS,
+  BulkItem,
+  BulkItemStatus,
+  BulkMode,
+  executeBulkAction,
+  prepareBulkItems,
+} from '@/lib/bulkActions'
+import RecipientInput from '@/components/RecipientInput'
+
+interface BulkActionsPanelProps {
+  network: NetworkConfig
+  address: string
+  tokenIds: string[]
+  onClearSelection: () => void
+  onCompleted: () => void
+}
+
+const STATUS_LABELS: Record<BulkItemStatus, { label: string; style: string }> = {
+  ready: { label: '대기', style: 'text-zinc-500 dark:text-zinc-400' },
+  sending: { label: '처리 중', style: 'text-amber-600 dark:text-amber-400' },
+  done: { label: '완료', style: 'text-green-600 dark:text-green-400' },
+  failed: { label: '실패', style: 'text-red-600 dark:text-red-400' },
+}
+
+export default function BulkActionsPanel({
+  network,
+  address,
+  tokenIds,
+  onClearSelection,
+  onCompleted,
+}: BulkActionsPanelProps) {
+  const abortRef = useRef<AbortController | null>(null)
+  const [mode, setMode] = useState<BulkMode>('transfer')
+  const [recipientInput, setRecipientInput] = useState('')
+  const [listText, setListText] = useState('')
+  const [items, setItems] = useState<BulkItem[]>([])
+  const [isPreparing, setIsPreparing] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+
+  // 선택이 바뀌면 이전에 만든 작업 목록은 더 이상 맞지 않으므로 다시 확인하도록 합니다.
+  const selectionKey = tokenIds.join(',')
+  const [preparedKey, setPreparedKey] = useState<string | null>(null)
+  const isPrepared = items.length > 0 && (isRunning || preparedKey === selectionKey)
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<BulkItemStatus, number>> = {}
+    for (const { status } of items) result[status] = (result[status] ?? 0) + 1
+    return result
+  }, [items])
+
+  const resetItems = () => {
+    setItems([])
+    setPreparedKey(null)
+  }
+
+  const handleModeChange = (next: BulkMode) => {
+    setMode(next)
+    resetItems()
+  }
+
+  const handlePrepare = async () => {
+    try {
+      setIsPreparing(true)
+      const input = mode === 'distribute' ? listText : recipientInput
+      setItems(await prepareBulkItems(mode, tokenIds, input, address))
+      setPreparedKey(selectionKey)
+    } catch (error) {
+      console.error('Bulk prepare error:', error)
+      alert(formatError(error, '받는 주소 확인에 실패했습니다.'))
+    } finally {
+      setIsPreparing(false)
+    }
+  }
+
+  const handleExecute = async () => {
+    const pendingCount = items.filter(({ status }) => status === 'ready' || status === 'failed').length
+    if (pendingCount === 0) {
+      alert('처리할 항목이 없습니다.')
+      return
+    }
+    const action =
+      mode === 'approve'
+        ? `${formatAddress(items[0].to)}에게 ${pendingCount}개 NFT의 전송 권한을 승인합니다.`
+        : `${pendingCount}개 NFT를 전송합니다. 전송한 NFT는 되돌릴 수 없습니다.`
+    if (!confirm(`${action} 지갑에서 트랜잭션을 차례로 승인해주세요.`)) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    try {
+      setIsRunning(true)
+      // 첫 항목으로 한 번만 시뮬레이션하고, 고른 수수료를 모든 트랜잭션에 적용합니다.
+      const first = items.find(({ status }) => status === 'ready' || status === 'failed') as BulkItem
+      const overrides = await requestTransactionApproval({
+        network,
+        method: mode === 'approve' ? 'approve' : SAFE_TRANSFER_FROM,
+        args:
+          mode === 'approve'
+            ? [first.to, first.tokenId]
+            : [address, first.to, first.tokenId],
+        from: address,
+        label: `${BULK_MODE_LABELS[mode]} (${pendingCount}개)`,
+        count: pendingCount,
+      })
+      if (!overrides) return
+
+      const result = await executeBulkAction(network, mode, address, items, {
+        onUpdate: setItems,
+        signal: controller.signal,
+        overrides,
+      })
+      const done = result.filter(({ status }) => status === 'done').length
+      alert(`일괄 처리 완료: ${done}/${pendingCount}개 처리되었습니다.`)
+      onCompleted()
+    } catch (error) {
+      console.error('Bulk action error:', error)
+      alert(formatError(error, '일괄 처리에 실패했습니다.'))
+    } finally {
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const inputDisabled = isPreparing || isRunning
+  const hasInput = mode === 'distribute' ? listText.trim() : recipientInput.trim()
+
+  return (
+    <div className="mb-4 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg border border-zinc-200 dark:border-zinc-700 space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-zinc-800 dark:text-zinc-200">
+          선택한 NFT {tokenIds.length}개 일괄 처리
+        </h3>
+        <button
+          onClick={onClearSelection}
+          disabled={isRunning}
+          className="px-2 py-1 text-xs bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+        >
+          선택 해제
+        </button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {(Object.keys(BULK_MODE_LABELS) as BulkMode[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => handleModeChange(key)}
+            disabled={inputDisabled}
+            className={`px-3 py-1 text-sm rounded transition-colors disabled:opacity-50 ${
+              mode === key
+                ? 'bg-blue-600 text-white'
+                : 'bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600'
+            }`}
+          >
+            {BULK_MODE_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'distribute' ? (
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            받는 주소 목록 (한 줄에 하나, 선택한 순서대로 돌아가며 배정)
+          </label>
+          <textarea
+            value={listText}
+            onChange={(e) => {
+              setListText(e.target.value)
+              resetItems()
+            }}
+            placeholder={'0x1234...abcd\nvitalik.eth'}
+            rows={4}
+            disabled={inputDisabled}
+            className="w-full px-4 py-2 border rounded-lg font-mono text-xs dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+          />
+        </div>
+      ) : (
+        <RecipientInput
+          value={recipientInput}
+          onChange={(value) => {
+            setRecipientInput(value)
+            resetItems()
+          }}
+          label={mode === 'approve' ? '승인할 주소' : '받는 주소'}
+          disabled={inputDisabled}
+        />
+      )}
+
+      <div className="flex gap-2">
+        {isPrepared ? (
+          <button
+            onClick={handleExecute}
+            disabled={isRunning}
+            className="flex-1 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors font-medium"
+          >
+            {isRunning ? `처리 중... (${counts.done ?? 0}/${items.length})` : '일괄 실행'}
+          </button>
+        ) : (
+          <button
+            onClick={handlePrepare}
+            disabled={inputDisabled || !hasInput || tokenIds.length === 0}
+            className="flex-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+          >
+            {isPreparing ? '주소 확인 중...' : '주소 확인 및 미리보기'}
+          </button>
+        )}
+        {isRunning && (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 text-sm bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-400 dark:hover:bg-zinc-600 transition-colors"
+          >
+            중지
+          </button>
+        )}
+      </div>
+
+      {isPrepared && (
+        <div className="max-h-64 overflow-y-auto border rounded-lg border-zinc-200 dark:border-zinc-700">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300">
+              <tr>
+                <th className="px-2 py-1 text-left">토큰</th>
+                <th className="px-2 py-1 text-left">{mode === 'approve' ? '승인할 주소' : '받는 주소'}</th>
+                <th className="px-2 py-1 text-left">상태</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => {
+                const txUrl = item.txHash ? getExplorerUrl(network, 'tx', item.txHash) : null
+                return (
+                  <tr key={item.tokenId} className="border-t border-zinc-200 dark:border-zinc-700">
+                    <td className="px-2 py-1 text-zinc-700 dark:text-zinc-300">#{item.tokenId}</td>
+                    <td className="px-2 py-1 font-mono text-zinc-700 dark:text-zinc-300">
+                      {item.ensName ?? formatAddress(item.to)}
+                    </td>
+                    <td className={`px-2 py-1 ${STATUS_LABELS[item.status].style}`}>
+                      {STATUS_LABELS[item.status].label}
+                      {txUrl && (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          tx
+                        </a>
+                      )}
+                      {item.error && (
+                        <span className="block text-red-600 dark:text-red-400 break-all">
+                          {item.error}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef } from 'react'
 import { uploadFileToIPFS, getIPFSGatewayUrl } from '@/lib/ipfs'
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_SIZE, formatBytes } from '@/lib/uploadLimits'
 
 interface ImageUploadProps {
   onImageUploaded: (ipfsHash: string, imageUrl: string) => void
@@ -16,26 +17,28 @@ export default function ImageUpload({
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadedHash, setUploadedHash] = useState<string | null>(null)
+  const [isReused, setIsReused] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
 
-    // 이미지 파일인지 확인
-    if (!file.type.startsWith('image/')) {
-      alert('이미지 파일만 업로드 가능합니다.')
+    // 서버에서 허용하는 이미지 형식인지 확인
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      alert('PNG, JPEG, GIF, WebP, AVIF 이미지만 업로드 가능합니다.')
       return
     }
 
-    // 파일 크기 제한 (10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      alert('파일 크기는 10MB 이하여야 합니다.')
+    // 파일 크기 제한
+    if (file.size > MAX_IMAGE_SIZE) {
+      alert(`파일 크기는 ${formatBytes(MAX_IMAGE_SIZE)} 이하여야 합니다.`)
       return
     }
 
     setSelectedFile(file)
     setUploadedHash(null)
+    setIsReused(false)
 
     // 미리보기 생성
     const reader = new FileReader()
@@ -51,9 +54,10 @@ export default function ImageUpload({
     try {
       setIsUploading(true)
       console.log('이미지 업로드 시작...')
-      const hash = await uploadFileToIPFS(selectedFile)
+      const { cid: hash, reused } = await uploadFileToIPFS(selectedFile)
       console.log('업로드 완료, CID:', hash)
       setUploadedHash(hash)
+      setIsReused(reused)
       const imageUrl = getIPFSGatewayUrl(hash)
       onImageUploaded(hash, imageUrl)
     } catch (error: any) {
@@ -84,7 +88,7 @@ export default function ImageUpload({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={ALLOWED_IMAGE_TYPES.join(',')}
           onChange={handleFileSelect}
           disabled={disabled || isUploading}
           className="block w-full text-sm text-zinc-500 dark:text-zinc-400
@@ -98,7 +102,7 @@ export default function ImageUpload({
             disabled:opacity-50 disabled:cursor-not-allowed"
         />
         <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
-          PNG, JPG, GIF 등 이미지 파일 (최대 10MB)
+          PNG, JPG, GIF, WebP, AVIF 이미지 파일 (최대 {formatBytes(MAX_IMAGE_SIZE)})
         </p>
       </div>
 
@@ -139,7 +143,7 @@ export default function ImageUpload({
           {uploadedHash && (
             <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
               <p className="text-sm font-medium text-green-800 dark:text-green-200 mb-1">
-                IPFS 업로드 완료
+                {isReused ? '이미 IPFS에 고정된 파일입니다' : 'IPFS 업로드 완료'} (CID 검증됨)
               </p>
               <p className="text-xs text-green-700 dark:text-green-300 break-all font-mono">
                 CID: {uploadedHash}
@@ -2,36 +2,62 @@
 
 import { useState, useEffect } from 'react'
 import { ethers } from 'ethers'
-import { getContractWithSigner, getContract } from '@/lib/contract'
-import { formatAddress } from '@/lib/web3'
-import { getIPFSGatewayUrl } from '@/lib/ipfs'
+import { SAFE_TRANSFER_FROM, getContractWithSigner, getContract } from '@/lib/contract'
+import { formatAddress, getSigner } from '@/lib/web3'
+import { NetworkConfig } from '@/lib/networks'
+import {
+  MetadataFieldError,
+  NFTMetadata,
+  formatMetadataErrors,
+  validateMetadata,
+} from '@/lib/metadata'
+import {
+  ContentCandidate,
+  fetchMetadata,
+  getContentCandidates,
+  reportGatewayResult,
+} from '@/lib/resolver'
+import {
+  canVerify,
+  fetchVerifiedBlob,
+  fetchVerifiedMetadata,
+  isVerifiedFetchEnabled,
+} from '@/lib/verifiedFetch'
+import { formatTraitValue } from '@/lib/traits'
+import { TokenRarity } from '@/lib/rarity'
+import { formatError } from '@/lib/errors'
+import { trackTransaction } from '@/lib/transactions'
+import { requestTransactionApproval } from '@/lib/preflight'
 
 interface NFTCardProps {
   tokenId: string
   owner: string
   tokenURI: string
   currentAddress: string
-  onTransfer: () => void
-  onRefresh: () => void
+  network: NetworkConfig
+  // 전체 NFT를 조회한 경우의 컬렉션 희귀도 (속성별 빈도 표시용)
+  rarity?: TokenRarity
 }
 
-interface NFTMetadata {
-  name?: string
-  description?: string
-  image?: string
-  attributes?: Array<{
-    trait_type: string
-    value: string | number
-  }>
+// verified: 메타데이터와 이미지 모두 CID로 검증됨
+// partial: 메타데이터는 검증됐지만 이미지가 IPFS가 아니라 검증할 수 없음
+// failed: 검증 실패 (내용을 표시하지 않음)
+type VerificationStatus = 'verified' | 'partial' | 'failed'
+
+const VERIFICATION_BADGES: Record<VerificationStatus, { label: string; style: string }> = {
+  verified: { label: '✓ 검증됨', style: 'bg-green-600 text-white' },
+  partial: { label: '일부 검증', style: 'bg-amber-500 text-white' },
+  failed: { label: '검증 실패', style: 'bg-red-600 text-white' },
 }
 
+
 export default function NFTCard({
   tokenId,
   owner,
   tokenURI,
   currentAddress,
-  onTransfer,
-  onRefresh,
+  network,
+  rarity,
 }: NFTCardProps) {
   const [isApproving, setIsApproving] = useState(false)
   const [isTransferring, setIsTransferring] = useState(false)
@@ -39,64 +65,106 @@ export default function NFTCard({
   const [approveTo, setApproveTo] = useState('')
   const [showTransfer, setShowTransfer] = useState(false)
   const [showApprove, setShowApprove] = useState(false)
-  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [showTraits, setShowTraits] = useState(false)
+  // 이미지 로드에 실패하면 다음 게이트웨이 후보로 넘어갑니다.
+  const [imageCandidates, setImageCandidates] = useState<ContentCandidate[]>([])
+  const [imageIndex, setImageIndex] = useState(0)
+  const imageUrl = imageCandidates[imageIndex]?.url ?? null
   const [metadata, setMetadata] = useState<NFTMetadata | null>(null)
+  const [metadataErrors, setMetadataErrors] = useState<MetadataFieldError[]>([])
   const [isLoadingMetadata, setIsLoadingMetadata] = useState(false)
+  const [verification, setVerification] = useState<VerificationStatus | null>(null)
 
   const isOwner = owner.toLowerCase() === currentAddress.toLowerCase()
 
-  // IPFS URL을 HTTP 게이트웨이 URL로 변환
-  const convertIPFSUrl = (url: string): string => {
-    if (url.startsWith('ipfs://')) {
-      const hash = url.replace('ipfs://', '')
-      return getIPFSGatewayUrl(hash)
+  // 메타데이터 로드
+  useEffect(() => {
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    // 검증 모드: CAR로 받아 검증이 끝난 내용만 표시
+    // 잘못된 필드는 버리고 표시 가능한 값만 사용
+    const readMetadata = (raw: unknown) => {
+      const { metadata: data, errors } = validateMetadata(raw)
+      if (errors.length > 0) {
+        console.warn(`Token ${tokenId} 메타데이터 오류:`, errors)
+      }
+      setMetadataErrors(errors)
+      return data
     }
-    if (url.startsWith('https://ipfs.io/ipfs/')) {
-      const hash = url.replace('https://ipfs.io/ipfs/', '')
-      return getIPFSGatewayUrl(hash)
+
+    const loadVerified = async () => {
+      const data = readMetadata(await fetchVerifiedMetadata(tokenURI))
+
+      let candidates: ContentCandidate[] = []
+      let status: VerificationStatus = 'verified'
+      if (data.image && canVerify(data.image)) {
+        objectUrl = URL.createObjectURL(await fetchVerifiedBlob(data.image))
+        // 받는 동안 정리 함수가 이미 실행되었다면 해제할 곳이 없으므로 바로 해제합니다.
+        if (cancelled) URL.revokeObjectURL(objectUrl)
+        candidates = [{ url: objectUrl }]
+      } else if (data.image) {
+        candidates = getContentCandidates(data.image)
+        status = 'partial'
+      }
+      return { data, candidates, status }
     }
-    return url
-  }
 
-  // 메타데이터 로드
-  useEffect(() => {
     const loadMetadata = async () => {
       if (!tokenURI) return
 
       try {
         setIsLoadingMetadata(true)
-        let metadataUrl = tokenURI
-
-        // IPFS URL인 경우 게이트웨이 URL로 변환
-        if (tokenURI.startsWith('ipfs://')) {
-          const hash = tokenURI.replace('ipfs://', '')
-          metadataUrl = getIPFSGatewayUrl(hash)
-        }
+        setVerification(null)
 
-        const response = await fetch(metadataUrl)
-        if (!response.ok) {
-          throw new Error('메타데이터를 가져올 수 없습니다.')
-        }
-
-        const data: NFTMetadata = await response.json()
-        setMetadata(data)
+        if (isVerifiedFetchEnabled() && canVerify(tokenURI)) {
+          const { data, candidates, status } = await loadVerified()
+          if (cancelled) return
+          setMetadata(data)
+          setImageCandidates(candidates)
+          setVerification(status)
+        } else {
+          // 여러 IPFS 게이트웨이 중 먼저 응답한 결과를 사용 (캐시됨)
+          const data = readMetadata(await fetchMetadata(tokenURI))
+          if (cancelled) return
+          setMetadata(data)
 
-        // 이미지 URL 처리
-        if (data.image) {
-          const imageUrl = convertIPFSUrl(data.image)
-          setImageUrl(imageUrl)
+          // 이미지 URL 처리
+          setImageCandidates(data.image ? getContentCandidates(data.image) : [])
         }
+        setImageIndex(0)
       } catch (error) {
         console.error('메타데이터 로드 오류:', error)
-        setImageUrl(null)
+        if (cancelled) return
+        setImageCandidates([])
         setMetadata(null)
+        setMetadataErrors([])
+        if (isVerifiedFetchEnabled() && canVerify(tokenURI)) {
+          setVerification('failed')
+        }
       } finally {
-        setIsLoadingMetadata(false)
+        if (!cancelled) setIsLoadingMetadata(false)
       }
     }
 
     loadMetadata()
-  }, [tokenURI])
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [tokenURI, tokenId])
+
+  const getTraitFrequency = (traitType: string | undefined, value: string | number) =>
+    rarity?.traits.find(
+      (trait) => trait.trait_type === traitType && trait.value === String(value)
+    )
+
+  const handleImageError = () => {
+    const failed = imageCandidates[imageIndex]
+    console.error('이미지 로드 실패:', failed?.url)
+    if (failed?.gateway) reportGatewayResult(failed.gateway, false)
+    setImageIndex((index) => index + 1)
+  }
 
   const handleApprove = async () => {
     if (!approveTo || !ethers.isAddress(approveTo)) {
@@ -106,19 +174,26 @@ export default function NFTCard({
 
     try {
       setIsApproving(true)
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = getContractWithSigner(signer)
+      const label = `토큰 #${tokenId} 승인`
+      const overrides = await requestTransactionApproval({
+        network,
+        method: 'approve',
+        args: [approveTo, tokenId],
+        from: currentAddress,
+        label,
+      })
+      if (!overrides) return
 
-      const tx = await contract.approve(approveTo, tokenId)
-      await tx.wait()
-      alert('승인이 완료되었습니다!')
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
+
+      const tx = await contract.approve(approveTo, tokenId, overrides)
+      trackTransaction(network, tx, { kind: 'approve', label })
       setApproveTo('')
       setShowApprove(false)
-      onRefresh()
-    } catch (error: any) {
+    } catch (error) {
       console.error('Approve error:', error)
-      alert(error.message || '승인에 실패했습니다.')
+      alert(formatError(error, '승인에 실패했습니다.'))
     } finally {
       setIsApproving(false)
     }
@@ -132,26 +207,45 @@ export default function NFTCard({
 
     try {
       setIsTransferring(true)
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contract = getContractWithSigner(signer)
+      const label = `토큰 #${tokenId} 전송`
+      const overrides = await requestTransactionApproval({
+        network,
+        method: SAFE_TRANSFER_FROM,
+        args: [currentAddress, transferTo, tokenId],
+        from: currentAddress,
+        label,
+      })
+      if (!overrides) return
+
+      const signer = await getSigner(network)
+      const contract = getContractWithSigner(signer, network)
 
-      const tx = await contract.safeTransferFrom(currentAddress, transferTo, tokenId)
-      await tx.wait()
-      alert('전송이 완료되었습니다!')
+      const tx = await contract.getFunction(SAFE_TRANSFER_FROM)(currentAddress, transferTo, tokenId, overrides)
+      trackTransaction(network, tx, { kind: 'transfer', label })
       setTransferTo('')
       setShowTransfer(false)
-      onTransfer()
-    } catch (error: any) {
+    } catch (error) {
       console.error('Transfer error:', error)
-      alert(error.message || '전송에 실패했습니다.')
+      alert(formatError(error, '전송에 실패했습니다.'))
     } finally {
       setIsTransferring(false)
     }
   }
 
   return (
-    <div className="border rounded-lg p-4 bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800">
+    <div className="relative border rounded-lg p-4 bg-white dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800">
+      {verification && (
+        <span
+          title={
+            verification === 'failed'
+              ? '게이트웨이 응답이 CID와 일치하지 않거나 검증할 수 없습니다.'
+              : '트러스트리스 게이트웨이의 CAR 응답을 CID로 검증했습니다.'
+          }
+          className={`absolute top-2 right-2 z-10 px-2 py-1 text-xs font-semibold rounded-full shadow-sm ${VERIFICATION_BADGES[verification].style}`}
+        >
+          {VERIFICATION_BADGES[verification].label}
+        </span>
+      )}
       {/* 이미지 표시 */}
       {isLoadingMetadata ? (
         <div className="w-full h-48 bg-zinc-100 dark:bg-zinc-800 rounded-lg mb-3 flex items-center justify-center">
@@ -163,10 +257,7 @@ export default function NFTCard({
             src={imageUrl}
             alt={metadata?.name || `NFT #${tokenId}`}
             className="w-full h-48 object-cover"
-            onError={(e) => {
-              console.error('이미지 로드 실패:', imageUrl)
-              e.currentTarget.style.display = 'none'
-            }}
+            onError={handleImageError}
           />
         </div>
       ) : (
@@ -187,6 +278,52 @@ export default function NFTCard({
         <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
           소유자: {formatAddress(owner)}
         </p>
+        {metadataErrors.length > 0 && (
+          <p
+            title={formatMetadataErrors(metadataErrors)}
+            className="text-xs text-amber-600 dark:text-amber-400 mt-1"
+          >
+            ⚠️ 메타데이터 형식 오류 {metadataErrors.length}건 (올바른 항목만 표시)
+          </p>
+        )}
+        {metadata?.attributes && metadata.attributes.length > 0 && (
+          <div className="mt-2">
+            <button
+              type="button"
+              onClick={() => setShowTraits((show) => !show)}
+              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              속성 {metadata.attributes.length}개 {showTraits ? '▲' : '▼'}
+            </button>
+            {showTraits && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {metadata.attributes.map((attribute, i) => {
+                  const trait = attribute.display_type
+                    ? undefined
+                    : getTraitFrequency(attribute.trait_type, attribute.value)
+                  return (
+                    <div
+                      key={`${attribute.trait_type ?? ''}-${i}`}
+                      className="px-2 py-1 rounded border border-blue-100 dark:border-blue-900 bg-blue-50 dark:bg-blue-900/20"
+                    >
+                      <p className="text-[10px] uppercase text-blue-600 dark:text-blue-400 truncate">
+                        {attribute.trait_type || '태그'}
+                      </p>
+                      <p className="text-sm font-medium text-zinc-900 dark:text-zinc-50 truncate">
+                        {formatTraitValue(attribute)}
+                      </p>
+                      {trait && (
+                        <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                          {trait.count}개 보유 · {(trait.frequency * 100).toFixed(1)}%
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
         {tokenURI && (
           <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-1 break-all">
             URI: {tokenURI.length > 50 ? `${tokenURI.slice(0, 50)}...` : tokenURI}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatError } from '@/lib/errors'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import {
+  TrackedTransaction,
+  cancelTransaction,
+  getOutstandingNonces,
+  getTransactions,
+  speedUpTransaction,
+  subscribeTransactions,
+} from '@/lib/transactions'
+
+interface PendingTransactionsPanelProps {
+  network: NetworkConfig
+  address: string
+}
+
+// 지갑이나 다른 앱에서 보낸 트랜잭션도 찾을 수 있도록 주기적으로 nonce를 다시 확인합니다.
+const POLL_INTERVAL_MS = 15000
+
+const formatElapsed = (since: number) => {
+  const minutes = Math.floor((Date.now() - since) / 60000)
+  if (minutes < 1) return '방금 전'
+  if (minutes < 60) return `${minutes}분 전`
+  return `${Math.floor(minutes / 60)}시간 전`
+}
+
+export default function PendingTransactionsPanel({
+  network,
+  address,
+}: PendingTransactionsPanelProps) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(getTransactions)
+  const [nonces, setNonces] = useState<number[]>([])
+  const [busyNonce, setBusyNonce] = useState<number | null>(null)
+
+  useEffect(() => subscribeTransactions(setTransactions), [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadNonces = async () => {
+      try {
+        const next = await getOutstandingNonces(network, address)
+        if (!cancelled) setNonces(next)
+      } catch (error) {
+        console.error('대기 중인 nonce 조회 오류:', error)
+      }
+    }
+
+    loadNonces()
+    const timer = setInterval(loadNonces, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [network, address, transactions])
+
+  if (nonces.length === 0) return null
+
+  const findRecord = (nonce: number) =>
+    transactions.find(
+      (tx) =>
+        tx.chainId === network.chainId &&
+        tx.account === address.toLowerCase() &&
+        tx.nonce === nonce &&
+        tx.status === 'pending'
+    )
+
+  const handleSpeedUp = async (nonce: number, hash: string) => {
+    try {
+      setBusyNonce(nonce)
+      await speedUpTransaction(network, hash)
+    } catch (error) {
+      console.error('Speed up error:', error)
+      alert(formatError(error, '속도 올리기에 실패했습니다.'))
+    } finally {
+      setBusyNonce(null)
+    }
+  }
+
+  const handleCancel = async (nonce: number) => {
+    if (!confirm(`nonce ${nonce} 트랜잭션을 취소합니다. 같은 nonce로 자신에게 0 ${network.nativeCurrency.symbol}를 보내며 가스비가 듭니다.`)) {
+      return
+    }
+    try {
+      setBusyNonce(nonce)
+      await cancelTransaction(network, address, nonce)
+    } catch (error) {
+      console.error('Cancel error:', error)
+      alert(formatError(error, '트랜잭션 취소에 실패했습니다.'))
+    } finally {
+      setBusyNonce(null)
+    }
+  }
+
+  return (
+    <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+      <h3 className="text-sm font-semibold text-amber-800 dark:text-amber-200 mb-2">
+        대기 중인 트랜잭션 ({nonces.length})
+      </h3>
+      <ul className="space-y-2">
+        {nonces.map((nonce) => {
+          const record = findRecord(nonce)
+          const hash = record?.replacedBy ?? record?.hash
+          const txUrl = hash ? getExplorerUrl(network, 'tx', hash) : null
+          const isBusy = busyNonce === nonce
+          return (
+            <li
+              key={nonce}
+              className="flex items-center justify-between gap-2 flex-wrap text-sm text-zinc-700 dark:text-zinc-300"
+            >
+              <div className="min-w-0">
+                <span className="font-mono text-xs text-zinc-500 dark:text-zinc-400 mr-2">
+                  nonce {nonce}
+                </span>
+                {record ? record.label : '다른 곳에서 보낸 트랜잭션'}
+                {record && (
+                  <span className="ml-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    {formatElapsed(record.submittedAt)}
+                    {record.replacementAction === 'speedUp' && ' · 속도 올림'}
+                    {record.replacementAction === 'cancel' && ' · 취소 요청됨'}
+                  </span>
+                )}
+                {txUrl && (
+                  <a
+                    href={txUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    tx
+                  </a>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {record?.request && record.replacementAction !== 'cancel' && (
+                  <button
+                    onClick={() => handleSpeedUp(nonce, record.hash)}
+                    disabled={busyNonce !== null}
+                    className="px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isBusy ? '처리 중...' : '속도 올리기'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleCancel(nonce)}
+                  disabled={busyNonce !== null}
+                  className="px-3 py-1 text-xs bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded hover:bg-zinc-400 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+                >
+                  취소
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ResolvedRecipient, isENSName, resolveRecipient } from '@/lib/recipient'
+
+interface RecipientInputProps {
+  value: string
+  onChange: (value: string) => void
+  // 비워두었을 때 받는 주소 (연결된 지갑). 없으면 필수 입력
+  defaultAddress?: string
+  label?: string
+  disabled?: boolean
+}
+
+// 입력을 멈춘 뒤 ENS를 조회할 때까지의 대기 시간
+const RESOLVE_DELAY_MS = 400
+
+export default function RecipientInput({
+  value,
+  onChange,
+  defaultAddress,
+  label = '받는 주소',
+  disabled,
+}: RecipientInputProps) {
+  const [resolved, setResolved] = useState<ResolvedRecipient | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isResolving, setIsResolving] = useState(false)
+
+  // 입력한 주소/ENS를 미리 확인해 실제로 받을 주소를 보여줍니다.
+  useEffect(() => {
+    setResolved(null)
+    setError(null)
+    if (!value.trim()) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsResolving(true)
+      try {
+        const result = await resolveRecipient(value)
+        if (!cancelled) setResolved(result)
+      } catch (resolveError) {
+        if (!cancelled) setError((resolveError as Error).message)
+      } finally {
+        if (!cancelled) setIsResolving(false)
+      }
+    }, isENSName(value) ? RESOLVE_DELAY_MS : 0)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [value])
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+        {label}
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={
+          defaultAddress
+            ? `0x 주소 또는 ENS 이름 (비워두면 내 지갑: ${defaultAddress})`
+            : '0x 주소 또는 ENS 이름'
+        }
+        disabled={disabled}
+        className="w-full px-4 py-2 border rounded-lg dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+      />
+      {isResolving && (
+        <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">ENS 이름을 조회하는 중...</p>
+      )}
+      {resolved && (
+        <p className="mt-1 text-xs text-green-600 dark:text-green-400 font-mono break-all">
+          {resolved.ensName ? `${resolved.ensName} → ` : '✓ '}
+          {resolved.address}
+        </p>
+      )}
+      {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
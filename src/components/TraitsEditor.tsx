@@ -0,0 +1,197 @@
+'use client'
+
+import { useMemo, useRef } from 'react'
+import { DISPLAY_TYPES, DisplayType, MetadataAttribute } from '@/lib/metadata'
+import {
+  DISPLAY_TYPE_LABELS,
+  TRAIT_PRESETS,
+  TraitRow,
+  createTraitRow,
+  parseTraitPreset,
+  toMetadataAttributes,
+} from '@/lib/traits'
+
+interface TraitsEditorProps {
+  rows: TraitRow[]
+  onChange: (rows: TraitRow[]) => void
+  disabled?: boolean
+}
+
+// 프리셋 JSON 파일은 작으므로 크기를 넉넉히 제한합니다.
+const MAX_PRESET_FILE_SIZE = 64 * 1024
+
+export default function TraitsEditor({ rows, onChange, disabled }: TraitsEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // 행별 오류 (중복, 숫자 변환 실패 등)
+  const rowErrors = useMemo(
+    () => new Map(toMetadataAttributes(rows).errors.map(({ id, message }) => [id, message])),
+    [rows]
+  )
+
+  const updateRow = (id: string, changes: Partial<TraitRow>) => {
+    onChange(rows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+  }
+
+  const handleDisplayTypeChange = (row: TraitRow, displayType: DisplayType | '') => {
+    // 날짜 ↔ 다른 형식으로 바꾸면 입력 형식이 달라지므로 값을 비웁니다.
+    const resetValue = (row.display_type === 'date') !== (displayType === 'date')
+    updateRow(row.id, {
+      display_type: displayType,
+      value: resetValue ? '' : row.value,
+      max_value: displayType === 'number' ? row.max_value : '',
+    })
+  }
+
+  // 이미 있는 trait_type은 건너뛰고 빈 행은 프리셋으로 대체합니다.
+  const applyPreset = (attributes: MetadataAttribute[]) => {
+    const kept = rows.filter((row) => row.trait_type.trim() || row.value.trim())
+    const existing = new Set(kept.map((row) => row.trait_type.trim().toLowerCase()))
+    const added = attributes
+      .filter(({ trait_type }) => !existing.has((trait_type ?? '').trim().toLowerCase()))
+      .map((attribute) => createTraitRow(attribute))
+    onChange([...kept, ...added])
+  }
+
+  const handleSelectPreset = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = TRAIT_PRESETS.find(({ name }) => name === event.target.value)
+    event.target.value = ''
+    if (preset) applyPreset(preset.attributes)
+  }
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_PRESET_FILE_SIZE) {
+      alert('프리셋 파일이 너무 큽니다.')
+      return
+    }
+
+    try {
+      applyPreset(parseTraitPreset(await file.text()))
+    } catch (error) {
+      console.error('프리셋 가져오기 오류:', error)
+      alert(`프리셋을 가져오지 못했습니다.\n${(error as Error).message}`)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between flex-wrap gap-2 mb-2">
+        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          속성 (Traits)
+        </label>
+        <div className="flex gap-2">
+          <select
+            defaultValue=""
+            onChange={handleSelectPreset}
+            disabled={disabled}
+            className="px-2 py-1 text-xs border rounded dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+          >
+            <option value="" disabled>
+              프리셋 적용
+            </option>
+            {TRAIT_PRESETS.map(({ name }) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="px-2 py-1 text-xs bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+          >
+            JSON 가져오기
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+          속성이 없습니다. 행을 추가하거나 프리셋을 적용하세요.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.id}>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={row.trait_type}
+                onChange={(e) => updateRow(row.id, { trait_type: e.target.value })}
+                placeholder="속성 이름 (예: Background)"
+                disabled={disabled}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border rounded dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+              />
+              <input
+                type={row.display_type === 'date' ? 'date' : row.display_type ? 'number' : 'text'}
+                value={row.value}
+                onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                placeholder="값"
+                disabled={disabled}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border rounded dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+              />
+              <select
+                value={row.display_type}
+                onChange={(e) => handleDisplayTypeChange(row, e.target.value as DisplayType | '')}
+                disabled={disabled}
+                className="px-2 py-2 text-sm border rounded dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+              >
+                {(['', ...DISPLAY_TYPES] as const).map((type) => (
+                  <option key={type} value={type}>
+                    {DISPLAY_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {row.display_type === 'number' && (
+                <input
+                  type="number"
+                  value={row.max_value}
+                  onChange={(e) => updateRow(row.id, { max_value: e.target.value })}
+                  placeholder="최댓값"
+                  disabled={disabled}
+                  className="w-24 px-3 py-2 text-sm border rounded dark:bg-zinc-800 dark:border-zinc-700 dark:text-zinc-50"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter(({ id }) => id !== row.id))}
+                disabled={disabled}
+                aria-label="속성 삭제"
+                className="px-3 py-2 text-sm bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded hover:bg-zinc-400 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+            {rowErrors.has(row.id) && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                {rowErrors.get(row.id)}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange([...rows, createTraitRow()])}
+        disabled={disabled}
+        className="mt-2 px-3 py-1 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+      >
+        + 속성 추가
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import { formatError } from '@/lib/errors'
+import { FEE_TIER_LABELS, FeeTier, formatFiat, formatNative, toTxOverrides } from '@/lib/fees'
+import {
+  PreflightRequest,
+  PreflightResult,
+  resolveTransactionApproval,
+  runPreflight,
+  subscribeTransactionApproval,
+} from '@/lib/preflight'
+
+export default function TransactionPreviewDialog() {
+  const [request, setRequest] = useState<PreflightRequest | null>(null)
+  const [result, setResult] = useState<PreflightResult | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [tier, setTier] = useState<FeeTier>('normal')
+
+  useEffect(
+    () =>
+      subscribeTransactionApproval((next) => {
+        setRequest(next)
+        setResult(null)
+        setLoadError(null)
+        setTier('normal')
+      }),
+    []
+  )
+
+  // 확인 요청이 들어오면 시뮬레이션과 수수료 조회 실행
+  useEffect(() => {
+    if (!request) return
+
+    let cancelled = false
+    runPreflight(request)
+      .then((next) => {
+        if (!cancelled) setResult(next)
+      })
+      .catch((error) => {
+        console.error('Preflight error:', error)
+        if (!cancelled) setLoadError(formatError(error, '예상 수수료를 계산하지 못했습니다.'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [request])
+
+  if (!request) return null
+
+  const { symbol } = request.network.nativeCurrency
+  const selected = result?.options.find((option) => option.tier === tier)
+  const count = request.count ?? 1
+
+  const handleConfirm = () => {
+    // 수수료를 계산하지 못했으면 지갑이 정한 값을 사용합니다.
+    resolveTransactionApproval(selected ? toTxOverrides(selected) : {})
+  }
+
+  const formatCost = (wei: bigint) =>
+    result?.fiatRate != null
+      ? `${formatNative(wei, symbol)} (≈ ${formatFiat(wei, result.fiatRate)})`
+      : formatNative(wei, symbol)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md bg-white dark:bg-zinc-900 rounded-lg p-6 border border-zinc-200 dark:border-zinc-800 space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{request.label}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {request.network.chainName} · 서명 전 예상 수수료를 확인하세요.
+          </p>
+        </div>
+
+        {!result && !loadError && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">시뮬레이션 및 가스 추정 중...</p>
+        )}
+
+        {loadError && (
+          <p className="p-3 text-sm bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg whitespace-pre-line">
+            {loadError}
+          </p>
+        )}
+
+        {result?.revert && (
+          <div className="p-3 text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 rounded-lg border border-red-200 dark:border-red-800">
+            <p className="font-medium">이 트랜잭션은 실패할 가능성이 높습니다.</p>
+            <p>{result.revert.message}</p>
+            {result.revert.remedy && <p className="text-xs mt-1">{result.revert.remedy}</p>}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              예상 가스 {result.gasLimit !== null ? result.gasLimit.toLocaleString() : '-'}
+              {count > 1 && ` × 트랜잭션 ${count}개`}
+              {request.network.testnet && result.fiatRate != null && ' · 환산 금액은 메인넷 시세 기준 참고용입니다.'}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {result.options.map((option) => (
+                <button
+                  key={option.tier}
+                  onClick={() => setTier(option.tier)}
+                  className={`p-2 rounded-lg border text-left text-xs transition-colors ${
+                    option.tier === tier
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  <span className="block font-semibold text-zinc-900 dark:text-zinc-50">
+                    {FEE_TIER_LABELS[option.tier]}
+                  </span>
+                  <span className="block text-zinc-600 dark:text-zinc-400">
+                    {Number(ethers.formatUnits(option.expectedFeePerGas, 'gwei')).toFixed(2)} gwei
+                  </span>
+                </button>
+              ))}
+            </div>
+            {selected && result.gasLimit !== null && (
+              <div className="text-sm text-zinc-700 dark:text-zinc-300">
+                <p>예상 수수료: {formatCost(result.gasLimit * selected.expectedFeePerGas * BigInt(count))}</p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  최대 수수료: {formatCost(result.gasLimit * selected.maxCostPerGas * BigInt(count))}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleConfirm}
+            disabled={!result && !loadError}
+            className={`flex-1 px-4 py-2 text-white rounded-lg disabled:opacity-50 transition-colors ${
+              result?.revert ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {result?.revert ? '그래도 서명하기' : '지갑에서 서명하기'}
+          </button>
+          <button
+            onClick={() => resolveTransactionApproval(null)}
+            className="px-4 py-2 bg-zinc-300 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-400 dark:hover:bg-zinc-600 transition-colors"
+          >
+            취소
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
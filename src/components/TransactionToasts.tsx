@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { NetworkConfig, getExplorerUrl } from '@/lib/networks'
+import {
+  TrackedTransaction,
+  TxStatus,
+  dismissTransaction,
+  getTransactions,
+  subscribeTransactions,
+} from '@/lib/transactions'
+
+interface TransactionToastsProps {
+  network: NetworkConfig
+  account: string
+}
+
+const STATUS_LABELS: Record<TxStatus, { label: string; style: string }> = {
+  pending: {
+    label: '처리 대기 중',
+    style: 'border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300',
+  },
+  confirmed: {
+    label: '완료',
+    style: 'border-green-200 dark:border-green-800 text-green-700 dark:text-green-300',
+  },
+  failed: {
+    label: '실패',
+    style: 'border-red-200 dark:border-red-800 text-red-700 dark:text-red-300',
+  },
+  replaced: {
+    label: '다른 트랜잭션으로 교체됨',
+    style: 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300',
+  },
+  cancelled: {
+    label: '취소됨',
+    style: 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300',
+  },
+}
+
+// 완료 알림은 잠시 보여준 뒤 자동으로 닫습니다.
+const AUTO_DISMISS_MS = 8000
+const MAX_TOASTS = 5
+
+export default function TransactionToasts({ network, account }: TransactionToastsProps) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(getTransactions)
+
+  useEffect(() => subscribeTransactions(setTransactions), [])
+
+  const isVisible = (tx: TrackedTransaction) =>
+    tx.chainId === network.chainId && tx.account === account.toLowerCase() && !tx.dismissed
+
+  const toasts = transactions.filter(isVisible).slice(0, MAX_TOASTS)
+
+  useEffect(() => {
+    const timers = transactions
+      .filter(
+        (tx) =>
+          tx.status === 'confirmed' &&
+          tx.chainId === network.chainId &&
+          tx.account === account.toLowerCase() &&
+          !tx.dismissed
+      )
+      .map(({ hash }) => setTimeout(() => dismissTransaction(hash), AUTO_DISMISS_MS))
+    return () => timers.forEach(clearTimeout)
+  }, [transactions, network.chainId, account])
+
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map((tx) => {
+        const { label, style } = STATUS_LABELS[tx.status]
+        const txUrl = getExplorerUrl(network, 'tx', tx.replacedBy ?? tx.hash)
+        return (
+          <div
+            key={tx.hash}
+            className={`p-3 bg-white dark:bg-zinc-900 rounded-lg border shadow-lg text-sm ${style}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-zinc-900 dark:text-zinc-50">{tx.label}</p>
+                <p className="text-xs">
+                  {tx.status === 'pending' && (
+                    <span className="inline-block w-2 h-2 mr-1 rounded-full bg-amber-500 animate-pulse" />
+                  )}
+                  {label}
+                  {tx.replacedBy && tx.status === 'confirmed' && ' (속도 올림)'}
+                </p>
+                {tx.error && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400 break-words">{tx.error}</p>
+                )}
+                {txUrl && (
+                  <a
+                    href={txUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    탐색기에서 보기
+                  </a>
+                )}
+              </div>
+              <button
+                onClick={() => dismissTransaction(tx.hash)}
+                aria-label="알림 닫기"
+                className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import QRCode from 'qrcode'
+
+interface WalletConnectModalProps {
+  uri: string
+  onClose: () => void
+}
+
+export default function WalletConnectModal({ uri, onClose }: WalletConnectModalProps) {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+
+  // 페어링 URI를 QR 코드 이미지로 변환
+  useEffect(() => {
+    let cancelled = false
+    QRCode.toDataURL(uri, { width: 280, margin: 1 })
+      .then((dataUrl) => {
+        if (!cancelled) setQrDataUrl(dataUrl)
+      })
+      .catch((error) => console.error('QR 코드 생성 오류:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [uri])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(uri)
+      setIsCopied(true)
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error('클립보드 복사 오류:', error)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <div className="w-full max-w-sm rounded-lg bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+            WalletConnect
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-sm text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+          >
+            닫기
+          </button>
+        </div>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+          모바일 지갑 앱에서 QR 코드를 스캔해 연결하세요.
+        </p>
+        <div className="flex justify-center mb-4">
+          {qrDataUrl ? (
+            // data URL이라 최적화할 대상이 없으므로 그대로 표시합니다.
+            <Image
+              src={qrDataUrl}
+              alt="WalletConnect QR 코드"
+              width={256}
+              height={256}
+              unoptimized
+              className="w-64 h-64 rounded bg-white"
+            />
+          ) : (
+            <div className="w-64 h-64 rounded bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center">
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">QR 코드 생성 중...</p>
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={uri}
+            className="flex-1 px-3 py-2 text-sm text-center bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors md:hidden"
+          >
+            지갑 앱 열기
+          </a>
+          <button
+            onClick={handleCopy}
+            className="flex-1 px-3 py-2 text-sm bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
+          >
+            {isCopied ? '복사됨' : '연결 URI 복사'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+/**
+ * 에어드롭 (주소 → tokenURI 목록 민팅)
+ * 목록을 읽어 받는 주소(ENS 포함)와 URI를 검증하고, 중복을 제거한 뒤
+ * 항목별 가스를 추정해 총비용을 미리 보여주고 nonce를 지정해 연속으로 민팅합니다.
+ */
+
+import { ethers } from 'ethers'
+import { runWithConcurrency } from './concurrency'
+import { getContract, getContractWithSigner, getMintedTokenId } from './contract'
+import { decodeError } from './errors'
+import { getAllTokenIds, resolveTokenURIs, syncOwnershipIndex } from './indexer'
+import { NetworkConfig } from './networks'
+import { resolveRecipient } from './recipient'
+import { getNonceState, isSettledFailure, trackTransaction, waitForReceipt } from './transactions'
+import { getReadProvider, getSigner, isUserRejection } from './web3'
+
+export interface AirdropEntry {
+  line: number
+  recipient: string
+  tokenURI: string
+}
+
+// invalid: 검증·가스 추정 실패 (민팅하지 않음)
+export type AirdropStatus = 'ready' | 'invalid' | 'minting' | 'minted' | 'failed'
+
+export interface AirdropItem extends AirdropEntry {
+  status: AirdropStatus
+  address?: string
+  ensName?: string
+  gasEstimate?: bigint
+  // 전송에 사용한 nonce (결과를 알 수 없을 때 다시 보내도 되는지 확인하는 데 사용)
+  nonce?: number
+  txHash?: string
+  tokenId?: string
+  error?: string
+}
+
+export interface AirdropPreview {
+  items: AirdropItem[]
+  // 같은 주소·URI 조합이라 제외된 줄 수
+  duplicates: number
+  totalGas: bigint
+  // 가스당 최대 비용 (EIP-1559 maxFeePerGas, 없으면 gasPrice)
+  feePerGas: bigint | null
+}
+
+export interface AirdropRunOptions {
+  onUpdate: (items: AirdropItem[]) => void
+  signal?: AbortSignal
+}
+
+export const MAX_AIRDROP_SIZE = 500
+
+const RESOLVE_CONCURRENCY = 5
+const ESTIMATE_CONCURRENCY = 4
+const TOKEN_URI_PATTERN = /^(ipfs:\/\/|ipns:\/\/|ar:\/\/|https?:\/\/|data:application\/json)/i
+const HEADER_PATTERN = /^"?(address|recipient|to|주소|받는 주소)"?\s*[,\t]/i
+
+/**
+ * 붙여넣거나 업로드한 목록을 읽습니다.
+ * 한 줄에 "주소,URI" (쉼표·탭·공백 구분)이며, # 으로 시작하는 줄과 헤더 줄은 무시합니다.
+ */
+export const parseAirdropList = (text: string): AirdropEntry[] => {
+  const entries: AirdropEntry[] = []
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) return
+    if (i === 0 && HEADER_PATTERN.test(line)) return
+
+    const match = line.match(/^"?([^\s,"]+)"?[\s,]+"?(.+?)"?$/)
+    entries.push({
+      line: i + 1,
+      recipient: match?.[1] ?? line,
+      tokenURI: match?.[2]?.trim() ?? '',
+    })
+  })
+
+  if (entries.length > MAX_AIRDROP_SIZE) {
+    throw new Error(`한 번에 최대 ${MAX_AIRDROP_SIZE}개까지 에어드롭할 수 있습니다.`)
+  }
+  return entries
+}
+
+/**
+ * 목록을 검증하고 중복을 제거한 뒤 항목별 가스를 추정합니다.
+ * @param from 민팅을 보낼 주소 (가스 추정에 사용)
+ */
+export async function prepareAirdrop(
+  network: NetworkConfig,
+  entries: AirdropEntry[],
+  from: string
+): Promise<AirdropPreview> {
+  const items: AirdropItem[] = entries.map((entry) => ({ ...entry, status: 'ready' }))
+
+  // 1. 주소·ENS 확인
+  await runWithConcurrency(items, RESOLVE_CONCURRENCY, async (item) => {
+    if (!TOKEN_URI_PATTERN.test(item.tokenURI)) {
+      Object.assign(item, { status: 'invalid', error: 'tokenURI가 없거나 지원하지 않는 형식입니다.' })
+      return
+    }
+    try {
+      Object.assign(item, await resolveRecipient(item.recipient))
+    } catch (error) {
+      Object.assign(item, { status: 'invalid', error: (error as Error).message })
+    }
+  })
+
+  // 2. 중복 제거 (ENS와 주소로 같은 곳을 가리키는 경우도 포함)
+  const seen = new Set<string>()
+  const unique = items.filter((item) => {
+    if (item.status !== 'ready') return true
+    const key = `${item.address}|${item.tokenURI}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  // 3. 가스 추정 (받는 컨트랙트가 ERC721Receiver가 아니면 여기서 걸러집니다)
+  const provider = await getReadProvider(network)
+  const contract = getContract(provider, network)
+  await runWithConcurrency(
+    unique.filter((item) => item.status === 'ready'),
+    ESTIMATE_CONCURRENCY,
+    async (item) => {
+      try {
+        item.gasEstimate = await contract.safeMint.estimateGas(item.address, item.tokenURI, { from })
+      } catch (error) {
+        Object.assign(item, {
+          status: 'invalid',
+          error: `가스 추정 실패: ${decodeError(error).message}`,
+        })
+      }
+    }
+  )
+
+  const feeData = await provider.getFeeData()
+  return {
+    items: unique,
+    duplicates: items.length - unique.length,
+    totalGas: unique.reduce((sum, item) => sum + (item.gasEstimate ?? 0n), 0n),
+    feePerGas: feeData.maxFeePerGas ?? feeData.gasPrice,
+  }
+}
+
+/**
+ * 검증된 항목을 민팅합니다. 대기 중 nonce부터 1씩 늘려 지정하므로 확정을 기다리지 않고 연속으로 보냅니다.
+ * 사용자가 지갑에서 거절하면 남은 항목은 ready 상태로 두고 멈춥니다.
+ * 실패한 항목은 이전 해시와 nonce를 체인에서 먼저 확인해, 대기 중이거나 이미 민팅된 항목은 다시 보내지 않습니다.
+ */
+export async function executeAirdrop(
+  network: NetworkConfig,
+  items: AirdropItem[],
+  { onUpdate, signal }: AirdropRunOptions
+): Promise<AirdropItem[]> {
+  let current = items
+  const update = (line: number, changes: Partial<AirdropItem>) => {
+    current = current.map((item) => (item.line === line ? { ...item, ...changes } : item))
+    onUpdate(current)
+  }
+
+  const signer = await getSigner(network)
+  const contract = getContractWithSigner(signer, network)
+  const confirmations: Promise<void>[] = []
+
+  const waitForMint = async (line: number, tx: ethers.TransactionResponse) => {
+    try {
+      const receipt = await waitForReceipt(tx)
+      if (!receipt) throw new Error('영수증을 받지 못했습니다.')
+      update(line, {
+        status: 'minted',
+        txHash: receipt.hash,
+        tokenId: getMintedTokenId(receipt),
+        error: undefined,
+      })
+    } catch (error) {
+      console.error(`${line}번째 줄 에어드롭 실패:`, error)
+      // 확정된 실패가 아니면 해시를 남겨 다시 실행할 때 체인에서 확인합니다.
+      const settled = isSettledFailure(error)
+      update(line, {
+        status: 'failed',
+        txHash: settled ? undefined : tx.hash,
+        nonce: settled ? undefined : tx.nonce,
+        error: decodeError(error).message,
+      })
+    }
+  }
+
+  // 이전 실행에서 보낸(또는 보냈을 수 있는) 트랜잭션이 처리되었거나 아직 대기 중인지 확인
+  const provider = await getReadProvider(network)
+  const account = await signer.getAddress()
+  const waiting = new Set<number>()
+  const unresolved: AirdropItem[] = []
+  const retrying = items.filter(
+    ({ status, txHash, nonce }) => status === 'failed' && (txHash || nonce !== undefined)
+  )
+  for (const item of retrying) {
+    if (item.txHash) {
+      const receipt = await provider.getTransactionReceipt(item.txHash)
+      if (receipt?.status === 1) {
+        update(item.line, { status: 'minted', tokenId: getMintedTokenId(receipt), error: undefined })
+        continue
+      }
+      if (receipt) {
+        update(item.line, { txHash: undefined, nonce: undefined })
+        continue
+      }
+      const tx = await signer.provider.getTransaction(item.txHash)
+      if (tx) {
+        update(item.line, { status: 'minting', error: undefined })
+        confirmations.push(waitForMint(item.line, tx))
+        continue
+      }
+    }
+    if (item.nonce === undefined) {
+      update(item.line, { txHash: undefined })
+      continue
+    }
+
+    // 해시가 없거나 노드에서 사라졌더라도 같은 nonce로 다시 전파되었을 수 있습니다.
+    const nonceState = await getNonceState(provider, account, item.nonce)
+    if (nonceState === 'pending') {
+      waiting.add(item.line)
+      update(item.line, {
+        error: '같은 nonce의 트랜잭션이 아직 대기 중입니다. 처리된 뒤 다시 실행해주세요.',
+      })
+    } else if (nonceState === 'used') {
+      unresolved.push(item)
+    } else {
+      update(item.line, { txHash: undefined, nonce: undefined })
+    }
+  }
+
+  // nonce가 이미 쓰였으면 같은 tokenURI의 토큰이 민팅되었는지 확인한 뒤에만 다시 보냅니다.
+  if (unresolved.length > 0) {
+    const index = await syncOwnershipIndex(provider, network)
+    const tokenURIs = await resolveTokenURIs(provider, network, index, getAllTokenIds(index))
+    const mintedURIs = new Map([...tokenURIs].map(([tokenId, uri]) => [uri, tokenId]))
+    for (const item of unresolved) {
+      const tokenId = mintedURIs.get(item.tokenURI)
+      update(
+        item.line,
+        tokenId
+          ? { status: 'minted', tokenId, error: undefined }
+          : { txHash: undefined, nonce: undefined }
+      )
+    }
+  }
+
+  let nonce = await signer.getNonce('pending')
+
+  const sendable = current.filter(
+    ({ line, status }) => (status === 'ready' || status === 'failed') && !waiting.has(line)
+  )
+  for (const item of sendable) {
+    if (signal?.aborted) break
+
+    // 전송 전에 nonce를 먼저 기록해 두면, 지갑이 오류를 반환해도 다음 실행에서 확인할 수 있습니다.
+    update(item.line, { status: 'minting', nonce, txHash: undefined, error: undefined })
+    try {
+      const tx: ethers.TransactionResponse = await contract.safeMint(item.address, item.tokenURI, {
+        nonce,
+      })
+      trackTransaction(network, tx, { kind: 'mint', label: `에어드롭 ${item.line}번째 줄` })
+      update(item.line, { txHash: tx.hash })
+      nonce = tx.nonce + 1
+      confirmations.push(waitForMint(item.line, tx))
+    } catch (error) {
+      if (isUserRejection(error)) {
+        update(item.line, { status: 'ready', nonce: undefined })
+        break
+      }
+      console.error(`${item.line}번째 줄 전송 실패:`, error)
+      update(item.line, { status: 'failed', error: decodeError(error).message })
+      nonce = await signer.getNonce('pending')
+    }
+  }
+
+  await Promise.all(confirmations)
+  return current
+}
+
+const toCSVCell = (value: string | undefined) => {
+  const text = value ?? ''
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 결과 보고서 CSV (받는 주소별 토큰 ID)
+ */
+export const toAirdropReportCSV = (items: AirdropItem[]) =>
+  [
+    'line,recipient,ens,tokenURI,status,tokenId,txHash,error',
+    ...items.map((item) =>
+      [
+        String(item.line),
+        item.address ?? item.recipient,
+        item.ensName,
+        item.tokenURI,
+        item.status,
+        item.tokenId,
+        item.txHash,
+        item.error,
+      ]
+        .map(toCSVCell)
+        .join(',')
+    ),
+  ].join('\n')
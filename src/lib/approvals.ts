@@ -0,0 +1,123 @@
+/**
+ * 승인 현황 조회
+ * 인덱서가 모은 Approval / ApprovalForAll 기록을 후보로 삼아 getApproved·isApprovedForAll로 현재 상태를 확인하고,
+ * 승인받은 주소가 지갑인지, 알려진 마켓플레이스 컨트랙트인지, 확인되지 않은 컨트랙트인지 분류합니다.
+ */
+
+import { ethers } from 'ethers'
+import { runWithConcurrency } from './concurrency'
+import { contractInterface, readTokenData } from './contract'
+import { getOperatorsOf, getTokensOwnedBy, syncOwnershipIndex } from './indexer'
+import { multicall } from './multicall'
+import { NetworkConfig } from './networks'
+
+// wallet: 코드가 없는 주소 / known: 알려진 컨트랙트 / contract: 확인되지 않은 컨트랙트
+export type SpenderType = 'wallet' | 'known' | 'contract'
+
+export interface SpenderInfo {
+  address: string
+  type: SpenderType
+  name?: string
+}
+
+export interface TokenApproval {
+  tokenId: string
+  spender: SpenderInfo
+}
+
+export interface ApprovalsOverview {
+  tokenApprovals: TokenApproval[]
+  operators: SpenderInfo[]
+}
+
+const SEAPORT_CONDUIT: Record<string, string> = {
+  '0x1e0049783f008a0085193e00003d00cd54003c71': 'OpenSea (Seaport Conduit)',
+}
+
+// 체인별 알려진 마켓플레이스 전송 컨트랙트
+// OpenSea Conduit은 테스트넷에도 같은 주소로 배포되었지만 Blur·LooksRare는 메인넷에만 있습니다.
+const KNOWN_OPERATORS: Record<number, Record<string, string>> = {
+  1: {
+    ...SEAPORT_CONDUIT,
+    '0x00000000000111abe46ff893f3b2fdf1f759a8a8': 'Blur (Execution Delegate)',
+    '0xf42aa99f011a1fa7cda90e5e98b277e306bca83e': 'LooksRare (Transfer Manager)',
+  },
+  11155111: SEAPORT_CONDUIT,
+  17000: SEAPORT_CONDUIT,
+}
+
+const CODE_CONCURRENCY = 5
+
+/**
+ * 주소의 종류를 확인합니다. 코드가 있으면 컨트랙트이며, 해당 체인의 알려진 목록에 없으면
+ * 확인되지 않은 컨트랙트로 표시합니다.
+ */
+export const classifySpenders = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  addresses: string[]
+): Promise<Map<string, SpenderInfo>> => {
+  const unique = Array.from(new Set(addresses.map((address) => ethers.getAddress(address))))
+  const known = KNOWN_OPERATORS[network.chainId] ?? {}
+  const result = new Map<string, SpenderInfo>()
+
+  await runWithConcurrency(unique, CODE_CONCURRENCY, async (address) => {
+    const name = known[address.toLowerCase()]
+    if (name) {
+      result.set(address, { address, type: 'known', name })
+      return
+    }
+    const code = await provider.getCode(address)
+    result.set(address, { address, type: code === '0x' ? 'wallet' : 'contract' })
+  })
+  return result
+}
+
+/**
+ * 주소가 부여한 토큰별 승인과 전체 승인(operator)을 조회합니다.
+ */
+export async function fetchApprovals(
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  owner: string
+): Promise<ApprovalsOverview> {
+  const index = await syncOwnershipIndex(provider, network)
+  const tokenIds = getTokensOwnedBy(index, owner)
+  const candidates = getOperatorsOf(index, owner)
+
+  const [tokens, operatorResults] = await Promise.all([
+    readTokenData(provider, network, tokenIds, ['getApproved']),
+    multicall(
+      provider,
+      candidates.map((operator) => ({
+        target: network.contractAddress,
+        iface: contractInterface,
+        method: 'isApprovedForAll',
+        args: [owner, operator],
+      }))
+    ),
+  ])
+
+  const approved = tokens.filter(
+    ({ approved }) => approved && approved !== ethers.ZeroAddress
+  )
+  // 이벤트 기록과 달리 현재 승인되어 있지 않은 operator는 제외합니다.
+  const operators = candidates.filter((_, i) => {
+    const result = operatorResults[i]
+    return result.success && result.value === true
+  })
+
+  const spenders = await classifySpenders(provider, network, [
+    ...approved.map(({ approved: spender }) => spender as string),
+    ...operators,
+  ])
+  const getInfo = (address: string) => spenders.get(ethers.getAddress(address)) as SpenderInfo
+
+  return {
+    tokenApprovals: approved.map(({ tokenId, approved: spender }) => ({
+      tokenId,
+      spender: getInfo(spender as string),
+    })),
+    operators: operators.map(getInfo),
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Sign-In with Ethereum 클라이언트
+ * 서버에서 nonce를 받아 지갑으로 서명하고, 검증에 성공하면 HTTP-only 세션 쿠키가 설정됩니다.
+ */
+
+import { NetworkConfig } from './networks'
+import { SiweSession, createSiweMessage } from './siwe'
+import { getSigner } from './web3'
+
+// 서명한 메시지는 짧은 시간 안에만 사용할 수 있습니다.
+const MESSAGE_TTL_MS = 10 * 60 * 1000
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const { error } = await response.json()
+    return error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * 현재 세션을 가져옵니다. 로그인하지 않았으면 null을 반환합니다.
+ */
+export const fetchSession = async (): Promise<SiweSession | null> => {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' })
+  if (response.status === 401) return null
+  if (!response.ok) {
+    throw new Error(await readError(response, '세션 조회에 실패했습니다.'))
+  }
+  return response.json()
+}
+
+/**
+ * 연결된 지갑으로 SIWE 메시지에 서명해 로그인합니다.
+ */
+export const signInWithEthereum = async (network: NetworkConfig): Promise<SiweSession> => {
+  const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' })
+  if (!nonceResponse.ok) {
+    throw new Error(await readError(nonceResponse, 'nonce 발급에 실패했습니다.'))
+  }
+  const { nonce } = await nonceResponse.json()
+
+  const signer = await getSigner(network)
+  const now = Date.now()
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address: await signer.getAddress(),
+    statement: 'ERC-721 NFT 테스트 앱에 로그인합니다.',
+    uri: window.location.origin,
+    version: '1',
+    chainId: network.chainId,
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + MESSAGE_TTL_MS).toISOString(),
+  })
+  const signature = await signer.signMessage(message)
+
+  const response = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  })
+  if (!response.ok) {
+    throw new Error(await readError(response, '로그인에 실패했습니다.'))
+  }
+  return response.json()
+}
+
+export const signOut = async () => {
+  const response = await fetch('/api/auth/logout', { method: 'POST' })
+  if (!response.ok) {
+    throw new Error(await readError(response, '로그아웃에 실패했습니다.'))
+  }
+}
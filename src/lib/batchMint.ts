@@ -0,0 +1,358 @@
+/**
+ * 일괄 민팅 작업
+ * 매니페스트 항목마다 이미지 업로드 → 메타데이터 업로드 → safeMint 순서로 진행합니다.
+ * 진행 상황(CID, 트랜잭션 해시, nonce)은 단계가 바뀔 때마다 localStorage에 저장되므로
+ * 중간에 실패하거나 창을 닫아도 같은 매니페스트를 다시 불러오면 이어서 진행할 수 있습니다.
+ * 재개할 때는 온체인 상태를 먼저 확인해 이미 민팅된 항목을 다시 민팅하지 않습니다.
+ */
+
+import { ethers } from 'ethers'
+import { runWithConcurrency } from './concurrency'
+import { getContractWithSigner, getMintedTokenId } from './contract'
+import { decodeError } from './errors'
+import { getAllTokenIds, resolveTokenURIs, syncOwnershipIndex } from './indexer'
+import { getIPFSUrl, uploadFileToIPFS, uploadMetadataToIPFS } from './ipfs'
+import { ManifestEntry, getManifestFile } from './manifest'
+import { MetadataAttribute } from './metadata'
+import { NetworkConfig } from './networks'
+import { getNonceState, isSettledFailure, trackTransaction, waitForReceipt } from './transactions'
+import { getReadProvider, getSigner, isUserRejection } from './web3'
+
+// pending: 업로드 대기 / uploading: 업로드 중 / uploaded: 민팅 대기
+// minting: 트랜잭션 전송됨(또는 전송 중) / minted: 완료 / failed: 실패 (다시 시도 가능)
+export type BatchItemStatus =
+  | 'pending'
+  | 'uploading'
+  | 'uploaded'
+  | 'minting'
+  | 'minted'
+  | 'failed'
+
+export interface BatchItem {
+  row: number
+  file: string
+  name: string
+  description?: string
+  recipient: string
+  attributes: MetadataAttribute[]
+  status: BatchItemStatus
+  imageCID?: string
+  metadataURI?: string
+  nonce?: number
+  txHash?: string
+  tokenId?: string
+  error?: string
+}
+
+export interface BatchJob {
+  // 매니페스트와 이미지 파일로 만든 지문 (같은 작업인지 판별)
+  id: string
+  chainId: number
+  contractAddress: string
+  createdAt: number
+  items: BatchItem[]
+}
+
+export interface BatchRunOptions {
+  // 항목이 바뀔 때마다 호출됩니다. (저장 후 호출)
+  onUpdate: (job: BatchJob) => void
+  signal?: AbortSignal
+}
+
+const STORAGE_KEY_PREFIX = 'batchMint'
+const UPLOAD_CONCURRENCY = 3
+
+const getStorageKey = (network: NetworkConfig) =>
+  `${STORAGE_KEY_PREFIX}:${network.chainId}:${network.contractAddress.toLowerCase()}`
+
+export const loadBatchJob = (network: NetworkConfig): BatchJob | null => {
+  try {
+    const saved = localStorage.getItem(getStorageKey(network))
+    return saved ? (JSON.parse(saved) as BatchJob) : null
+  } catch (error) {
+    console.error('일괄 민팅 작업 불러오기 실패:', error)
+    return null
+  }
+}
+
+export const saveBatchJob = (network: NetworkConfig, job: BatchJob) => {
+  localStorage.setItem(getStorageKey(network), JSON.stringify(job))
+}
+
+export const clearBatchJob = (network: NetworkConfig) => {
+  localStorage.removeItem(getStorageKey(network))
+}
+
+export const isBatchJobFinished = (job: BatchJob) =>
+  job.items.every(({ status }) => status === 'minted')
+
+/**
+ * 매니페스트 내용과 이미지 파일 정보로 작업 지문을 만듭니다.
+ */
+export const getBatchJobId = (entries: ManifestEntry[], files: Map<string, File>) =>
+  ethers.id(
+    JSON.stringify(
+      entries.map((entry) => {
+        const file = getManifestFile(files, entry.file)
+        return [entry, file?.size, file?.lastModified]
+      })
+    )
+  )
+
+/**
+ * 검증을 통과한 매니페스트로 새 작업을 만듭니다.
+ * @param defaultRecipient 받는 주소가 없는 항목에 사용할 주소 (보통 연결된 지갑)
+ */
+export const createBatchJob = (
+  id: string,
+  entries: ManifestEntry[],
+  network: NetworkConfig,
+  defaultRecipient: string
+): BatchJob => ({
+  id,
+  chainId: network.chainId,
+  contractAddress: network.contractAddress,
+  createdAt: Date.now(),
+  items: entries.map(({ row, file, name, description, recipient, attributes }) => ({
+    row,
+    file,
+    name,
+    description,
+    recipient: ethers.getAddress(recipient || defaultRecipient),
+    attributes,
+    status: 'pending',
+  })),
+})
+
+/**
+ * 작업 상태를 갱신하는 함수를 만듭니다. 항목이 바뀔 때마다 저장하고 알립니다.
+ */
+const createUpdater = (network: NetworkConfig, job: BatchJob, onUpdate: BatchRunOptions['onUpdate']) => {
+  let current = job
+  return {
+    get job() {
+      return current
+    },
+    update(row: number, changes: Partial<BatchItem>) {
+      current = {
+        ...current,
+        items: current.items.map((item) => (item.row === row ? { ...item, ...changes } : item)),
+      }
+      saveBatchJob(network, current)
+      onUpdate(current)
+    },
+  }
+}
+
+/**
+ * 이미지와 메타데이터를 동시에 몇 개씩 업로드합니다.
+ * 이미 업로드가 끝난 항목(메타데이터 URI가 있는 항목)은 건너뜁니다.
+ * @param files 파일 이름 → 이미지 파일
+ */
+export async function uploadBatchItems(
+  network: NetworkConfig,
+  job: BatchJob,
+  files: Map<string, File>,
+  { onUpdate, signal }: BatchRunOptions
+): Promise<BatchJob> {
+  const updater = createUpdater(network, job, onUpdate)
+  const targets = job.items.filter((item) => !item.metadataURI && item.status !== 'minted')
+
+  await runWithConcurrency(
+    targets,
+    UPLOAD_CONCURRENCY,
+    async (item) => {
+      updater.update(item.row, { status: 'uploading', error: undefined })
+      try {
+        let imageCID = item.imageCID
+        if (!imageCID) {
+          const file = getManifestFile(files, item.file)
+          if (!file) throw new Error(`폴더에 '${item.file}' 파일이 없습니다.`)
+          imageCID = (await uploadFileToIPFS(file)).cid
+          updater.update(item.row, { imageCID })
+        }
+
+        const metadataHash = await uploadMetadataToIPFS({
+          name: item.name,
+          description: item.description || `${item.name} NFT`,
+          image: getIPFSUrl(imageCID),
+          ...(item.attributes.length > 0 && { attributes: item.attributes }),
+        })
+        updater.update(item.row, { status: 'uploaded', metadataURI: getIPFSUrl(metadataHash) })
+      } catch (error) {
+        console.error(`${item.row}행 업로드 실패:`, error)
+        updater.update(item.row, { status: 'failed', error: (error as Error).message })
+      }
+    },
+    signal
+  )
+
+  return updater.job
+}
+
+/**
+ * 이전 실행에서 전송한 트랜잭션의 결과를 확인합니다.
+ * - 영수증이 있으면 성공/실패를 반영합니다.
+ * - 아직 대기 중이면 그대로 둡니다.
+ * - 트랜잭션이 사라졌거나 해시를 저장하기 전에 중단된 항목은
+ *   소유권 인덱스에서 같은 tokenURI를 가진 토큰이 있는지 확인하고,
+ *   저장해 둔 nonce에 대기 중인 트랜잭션이 없을 때만 다시 민팅할 수 있게 되돌려 중복 민팅을 막습니다.
+ * @param account 민팅을 보낸 주소 (nonce 확인에 사용)
+ */
+export async function reconcileBatchJob(
+  network: NetworkConfig,
+  job: BatchJob,
+  account: string,
+  { onUpdate }: BatchRunOptions
+): Promise<BatchJob> {
+  const updater = createUpdater(network, job, onUpdate)
+  const sent = job.items.filter((item) => item.status === 'minting')
+  if (sent.length === 0) return job
+
+  const provider = await getReadProvider(network)
+  const unknown: BatchItem[] = []
+
+  for (const item of sent) {
+    if (!item.txHash) {
+      unknown.push(item)
+      continue
+    }
+    const receipt = await provider.getTransactionReceipt(item.txHash)
+    if (receipt?.status === 1) {
+      updater.update(item.row, {
+        status: 'minted',
+        tokenId: getMintedTokenId(receipt),
+        error: undefined,
+      })
+    } else if (receipt) {
+      updater.update(item.row, {
+        status: 'failed',
+        txHash: undefined,
+        nonce: undefined,
+        error: '트랜잭션이 실패했습니다. (revert)',
+      })
+    } else if (!(await provider.getTransaction(item.txHash))) {
+      unknown.push(item)
+    }
+  }
+
+  if (unknown.length > 0) {
+    const index = await syncOwnershipIndex(provider, network)
+    const tokenURIs = await resolveTokenURIs(provider, network, index, getAllTokenIds(index))
+    const mintedURIs = new Map([...tokenURIs].map(([tokenId, uri]) => [uri, tokenId]))
+
+    for (const item of unknown) {
+      const tokenId = item.metadataURI ? mintedURIs.get(item.metadataURI) : undefined
+      if (tokenId) {
+        updater.update(item.row, { status: 'minted', tokenId, error: undefined })
+        continue
+      }
+      // 토큰은 없지만 같은 nonce의 트랜잭션이 대기열에 있으면 (다시 전파된 경우 포함) 처리될 때까지 기다립니다.
+      const nonceState =
+        item.nonce === undefined ? 'unused' : await getNonceState(provider, account, item.nonce)
+      if (nonceState === 'pending') {
+        updater.update(item.row, {
+          error: '같은 nonce의 트랜잭션이 아직 대기 중입니다. 처리된 뒤 다시 실행해주세요.',
+        })
+        continue
+      }
+      // nonce가 쓰이지 않았거나 다른 트랜잭션에 쓰였고 토큰도 없으므로 다시 민팅해도 안전합니다.
+      updater.update(item.row, { status: 'uploaded', txHash: undefined, nonce: undefined })
+    }
+  }
+
+  return updater.job
+}
+
+/**
+ * 업로드가 끝난 항목을 safeMint 합니다.
+ * 시작할 때 대기 중(pending) nonce를 한 번 읽어 항목마다 1씩 증가시켜 지정하므로
+ * 확정을 기다리지 않고 연속으로 전송할 수 있습니다. 전송 직후 해시를 저장하고, 확정은 마지막에 함께 기다립니다.
+ * 사용자가 지갑에서 거절하면 남은 항목은 그대로 두고 멈춥니다.
+ */
+export async function mintBatchItems(
+  network: NetworkConfig,
+  job: BatchJob,
+  { onUpdate, signal }: BatchRunOptions
+): Promise<BatchJob> {
+  const signer = await getSigner(network)
+  const reconciled = await reconcileBatchJob(network, job, await signer.getAddress(), { onUpdate })
+  const updater = createUpdater(network, reconciled, onUpdate)
+
+  const contract = getContractWithSigner(signer, network)
+  const confirmations: Promise<void>[] = []
+
+  const waitForMint = async (row: number, tx: ethers.TransactionResponse) => {
+    try {
+      // 가스비만 올려 다시 보낸 경우(repriced)는 교체된 트랜잭션의 영수증을 받습니다.
+      const receipt = await waitForReceipt(tx)
+      if (!receipt) throw new Error('영수증을 받지 못했습니다.')
+      updater.update(row, {
+        status: 'minted',
+        txHash: receipt.hash,
+        tokenId: getMintedTokenId(receipt),
+        error: undefined,
+      })
+    } catch (error) {
+      console.error(`${row}행 민팅 실패:`, error)
+      if (isSettledFailure(error)) {
+        updater.update(row, {
+          status: 'failed',
+          txHash: undefined,
+          nonce: undefined,
+          error: decodeError(error).message,
+        })
+        return
+      }
+      // 확인만 실패한 경우 트랜잭션은 아직 대기 중이거나 이미 처리되었을 수 있으므로,
+      // minting 상태와 해시를 남겨 다음 실행에서 reconcileBatchJob이 확인한 뒤에만 다시 보냅니다.
+      updater.update(row, {
+        error: `확인 실패: ${decodeError(error).message} 다시 실행하면 체인에서 상태를 확인합니다.`,
+      })
+    }
+  }
+
+  // 이전 실행에서 전송해 아직 대기 중인 트랜잭션도 확정을 기다립니다.
+  for (const item of reconciled.items) {
+    if (item.status !== 'minting' || !item.txHash) continue
+    const tx = await signer.provider.getTransaction(item.txHash)
+    if (tx) confirmations.push(waitForMint(item.row, tx))
+  }
+
+  const ready = reconciled.items.filter(
+    (item) => item.metadataURI && (item.status === 'uploaded' || item.status === 'failed')
+  )
+  let nonce = await signer.getNonce('pending')
+
+  for (const item of ready) {
+    if (signal?.aborted) break
+
+    // 전송 전에 상태를 먼저 저장해 두면, 해시를 저장하기 전에 중단되더라도 재개 시 확인 대상이 됩니다.
+    updater.update(item.row, { status: 'minting', nonce, error: undefined })
+    try {
+      const tx: ethers.TransactionResponse = await contract.safeMint(item.recipient, item.metadataURI, {
+        nonce,
+      })
+      trackTransaction(network, tx, { kind: 'mint', label: `일괄 민팅 ${item.row}행` })
+      updater.update(item.row, { txHash: tx.hash, nonce: tx.nonce })
+      nonce = tx.nonce + 1
+      confirmations.push(waitForMint(item.row, tx))
+    } catch (error) {
+      if (isUserRejection(error)) {
+        updater.update(item.row, { status: 'uploaded', nonce: undefined })
+        break
+      }
+      console.error(`${item.row}행 전송 실패:`, error)
+      // 지갑이 오류를 반환해도 이미 전파했을 수 있으므로 minting 상태와 nonce를 남겨 두고,
+      // 다음 실행에서 reconcileBatchJob이 tokenURI와 nonce를 확인한 뒤에만 다시 보냅니다.
+      updater.update(item.row, {
+        error: `전송 확인 실패: ${decodeError(error).message} 다시 실행하면 체인에서 상태를 확인합니다.`,
+      })
+      // 전송 실패 시 nonce가 어긋났을 수 있으므로 다시 읽습니다.
+      nonce = await signer.getNonce('pending')
+    }
+  }
+
+  await Promise.all(confirmations)
+  return updater.job
+}
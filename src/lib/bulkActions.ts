@@ -0,0 +1,156 @@
+/**
+ * 선택한 NFT 일괄 처리 (한 주소로 전송 / 여러 주소로 나눠 전송 / 한 주소에 승인)
+ * 받는 주소(ENS 포함)를 미리 확인해 토큰별 작업 목록을 만들고,
+ * nonce를 지정해 차례로 보낸 뒤 확정을 함께 기다립니다. 중간에 멈추면 남은 항목은 대기 상태로 둡니다.
+ */
+
+import { ethers } from 'ethers'
+import { runWithConcurrency } from './concurrency'
+import { SAFE_TRANSFER_FROM, getContractWithSigner } from './contract'
+import { decodeError } from './errors'
+import { TxOverrides } from './fees'
+import { NetworkConfig } from './networks'
+import { resolveRecipient } from './recipient'
+import { trackTransaction, waitForReceipt } from './transactions'
+import { getSigner, isUserRejection } from './web3'
+
+export type BulkMode = 'transfer' | 'distribute' | 'approve'
+
+export type BulkItemStatus = 'ready' | 'sending' | 'done' | 'failed'
+
+export interface BulkItem {
+  tokenId: string
+  to: string
+  ensName?: string
+  status: BulkItemStatus
+  txHash?: string
+  error?: string
+}
+
+export interface BulkRunOptions {
+  onUpdate: (items: BulkItem[]) => void
+  signal?: AbortSignal
+  // 사전 점검에서 고른 수수료 (모든 트랜잭션에 같이 적용)
+  overrides?: TxOverrides
+}
+
+export const BULK_MODE_LABELS: Record<BulkMode, string> = {
+  transfer: '한 주소로 전송',
+  distribute: '여러 주소로 나눠 전송',
+  approve: '한 주소에 승인',
+}
+
+const RESOLVE_CONCURRENCY = 5
+
+/**
+ * 한 줄에 주소(또는 ENS) 하나인 목록을 읽습니다. 빈 줄과 # 으로 시작하는 줄은 무시합니다.
+ */
+export const parseRecipientList = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,\t]/)[0].trim())
+    .filter((line) => line && !line.startsWith('#'))
+
+/**
+ * 선택한 토큰마다 받는 주소를 정해 작업 목록을 만듭니다.
+ * 나눠 전송할 때는 목록의 주소에 토큰을 순서대로 돌아가며 배정합니다.
+ * @param recipients transfer·approve는 주소 하나, distribute는 줄마다 주소가 있는 목록
+ */
+export async function prepareBulkItems(
+  mode: BulkMode,
+  tokenIds: string[],
+  recipients: string,
+  from: string
+): Promise<BulkItem[]> {
+  const inputs = mode === 'distribute' ? parseRecipientList(recipients) : [recipients]
+  if (inputs.length === 0 || !inputs[0].trim()) throw new Error('받는 주소를 입력해주세요.')
+
+  const resolved = new Array<{ address: string; ensName?: string }>(inputs.length)
+  const errors: string[] = []
+  await runWithConcurrency(
+    inputs.map((input, i) => ({ input, i })),
+    RESOLVE_CONCURRENCY,
+    async ({ input, i }) => {
+      try {
+        resolved[i] = await resolveRecipient(input)
+        if (resolved[i].address.toLowerCase() === from.toLowerCase()) {
+          errors.push(`${input}: 연결된 지갑 주소입니다.`)
+        }
+      } catch (error) {
+        errors.push(`${input}: ${(error as Error).message}`)
+      }
+    }
+  )
+  if (errors.length > 0) throw new Error(`받는 주소를 확인해주세요.\n${errors.join('\n')}`)
+
+  return tokenIds.map((tokenId, i) => {
+    const { address, ensName } = resolved[i % resolved.length]
+    return { tokenId, to: address, ensName, status: 'ready' }
+  })
+}
+
+/**
+ * 대기 중인 항목을 차례로 보냅니다. 대기 중 nonce부터 1씩 늘려 지정하므로 확정을 기다리지 않고 연속으로 보냅니다.
+ * 사용자가 지갑에서 거절하거나 signal로 중지하면 남은 항목은 ready 상태로 두고 멈춥니다.
+ */
+export async function executeBulkAction(
+  network: NetworkConfig,
+  mode: BulkMode,
+  from: string,
+  items: BulkItem[],
+  { onUpdate, signal, overrides }: BulkRunOptions
+): Promise<BulkItem[]> {
+  let current = items
+  const update = (tokenId: string, changes: Partial<BulkItem>) => {
+    current = current.map((item) => (item.tokenId === tokenId ? { ...item, ...changes } : item))
+    onUpdate(current)
+  }
+
+  const signer = await getSigner(network)
+  const contract = getContractWithSigner(signer, network)
+  const confirmations: Promise<void>[] = []
+  let nonce = await signer.getNonce('pending')
+
+  for (const item of items.filter(({ status }) => status === 'ready' || status === 'failed')) {
+    if (signal?.aborted) break
+
+    update(item.tokenId, { status: 'sending', error: undefined })
+    try {
+      const tx: ethers.TransactionResponse =
+        mode === 'approve'
+          ? await contract.approve(item.to, item.tokenId, { ...overrides, nonce })
+          : await contract.getFunction(SAFE_TRANSFER_FROM)(from, item.to, item.tokenId, {
+              ...overrides,
+              nonce,
+            })
+      trackTransaction(network, tx, {
+        kind: mode === 'approve' ? 'approve' : 'transfer',
+        label: `토큰 #${item.tokenId} ${mode === 'approve' ? '승인' : '전송'}`,
+      })
+      update(item.tokenId, { txHash: tx.hash })
+      nonce = tx.nonce + 1
+      confirmations.push(
+        waitForReceipt(tx)
+          .then((receipt) => {
+            if (!receipt) throw new Error('영수증을 받지 못했습니다.')
+            update(item.tokenId, { status: 'done', txHash: receipt.hash })
+          })
+          .catch((error) => {
+            console.error(`토큰 #${item.tokenId} 처리 실패:`, error)
+            update(item.tokenId, { status: 'failed', error: decodeError(error).message })
+          })
+      )
+    } catch (error) {
+      if (isUserRejection(error)) {
+        update(item.tokenId, { status: 'ready' })
+        break
+      }
+      console.error(`토큰 #${item.tokenId} 전송 실패:`, error)
+      update(item.tokenId, { status: 'failed', error: decodeError(error).message })
+      nonce = await signer.getNonce('pending')
+    }
+  }
+
+  await Promise.all(confirmations)
+  return current
+}
@@ -0,0 +1,55 @@
+/**
+ * CID 계산 유틸리티
+ * 업로드할 파일의 CIDv1을 브라우저에서 직접 계산합니다.
+ * 피닝 서비스(Pinata cidVersion: 1, Kubo --cid-version=1)와 같은 방식으로 만듭니다:
+ * UnixFS, 256KiB 고정 크기 청크, raw leaves, balanced DAG(노드당 최대 174개 링크), sha2-256
+ */
+
+import { importByteStream } from 'ipfs-unixfs-importer'
+import { CID } from 'multiformats/cid'
+
+// 큰 파일도 메모리에 한 번에 올리지 않도록 나누어 읽습니다.
+const READ_CHUNK_SIZE = 1024 * 1024
+
+// CID 계산만 하므로 블록은 저장하지 않습니다.
+const discardBlockstore = {
+  put: async (cid: CID) => cid,
+}
+
+async function* readBlob(blob: Blob) {
+  for (let offset = 0; offset < blob.size; offset += READ_CHUNK_SIZE) {
+    yield new Uint8Array(await blob.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer())
+  }
+}
+
+/**
+ * 파일 내용으로 CIDv1을 계산합니다.
+ * @param file 계산할 파일
+ * @returns CIDv1 문자열 (base32, 예: bafkrei...)
+ */
+export async function computeCID(file: Blob): Promise<string> {
+  const { cid } = await importByteStream(readBlob(file), discardBlockstore, {
+    cidVersion: 1,
+    rawLeaves: true,
+  })
+  return cid.toString()
+}
+
+/**
+ * CID 문자열을 검사하고 CIDv1(base32) 형식으로 통일합니다. 올바르지 않으면 null을 반환합니다.
+ */
+export const normalizeCID = (value: string) => {
+  try {
+    return CID.parse(value.trim()).toV1().toString()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 두 CID가 같은 콘텐츠를 가리키는지 비교합니다. (표기 방식 차이는 무시)
+ */
+export const isSameCID = (a: string, b: string) => {
+  const left = normalizeCID(a)
+  return left !== null && left === normalizeCID(b)
+}
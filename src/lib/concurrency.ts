@@ -0,0 +1,23 @@
+/**
+ * 동시 실행 수를 제한해 작업을 처리합니다.
+ * 각 작업의 실패는 task 안에서 처리해야 하며, signal이 중단되면 남은 작업을 시작하지 않습니다.
+ * @param items 처리할 항목
+ * @param limit 동시에 실행할 최대 작업 수
+ * @param task 항목마다 실행할 작업
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const queue = [...items]
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await task(queue.shift() as T)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, queue.length) }, worker))
+}
@@ -0,0 +1,63 @@
+/**
+ * EIP-6963 다중 지갑 탐색
+ * 설치된 지갑 확장들이 eip6963:announceProvider 이벤트로 자신을 알리면 목록에 모읍니다.
+ */
+
+import { EIP1193Provider, EIP6963ProviderInfo } from './types'
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo
+  provider: EIP1193Provider
+}
+
+interface EIP6963AnnounceProviderEvent extends Event {
+  detail: EIP6963ProviderDetail
+}
+
+const discovered = new Map<string, EIP6963ProviderDetail>()
+const listeners = new Set<(providers: EIP6963ProviderDetail[]) => void>()
+let isListening = false
+
+const notify = () => {
+  const providers = Array.from(discovered.values())
+  listeners.forEach((listener) => listener(providers))
+}
+
+const handleAnnounce = (event: Event) => {
+  const { detail } = event as EIP6963AnnounceProviderEvent
+  if (!detail?.info?.rdns || !detail.provider) return
+
+  // 같은 지갑이 여러 번 알리면 rdns 기준으로 최신 것만 유지하고, 실제로 바뀐 경우에만 알립니다.
+  const previous = discovered.get(detail.info.rdns)
+  discovered.set(detail.info.rdns, detail)
+  if (previous?.provider !== detail.provider) notify()
+}
+
+// 지갑은 requestProvider에 동기적으로 응답하므로 요청은 처음 한 번만 보냅니다.
+// 이후에 설치·활성화되는 지갑은 스스로 announceProvider를 보냅니다.
+const startDiscovery = () => {
+  if (isListening || typeof window === 'undefined') return
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce)
+  isListening = true
+  window.dispatchEvent(new Event('eip6963:requestProvider'))
+}
+
+/**
+ * 현재까지 발견한 지갑 목록
+ */
+export const getDiscoveredProviders = (): EIP6963ProviderDetail[] =>
+  Array.from(discovered.values())
+
+/**
+ * 지갑 탐색을 시작하고, 새 지갑이 발견될 때마다 전체 목록을 전달받습니다.
+ */
+export const subscribeProviders = (
+  listener: (providers: EIP6963ProviderDetail[]) => void
+) => {
+  listeners.add(listener)
+  startDiscovery()
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * 지갑 커넥터 관리
+ * 사용 가능한 커넥터 목록을 모으고, 사용자가 선택한 커넥터를 기억합니다.
+ */
+
+import { createInjectedConnector } from './injected'
+import { getDiscoveredProviders, subscribeProviders, EIP6963ProviderDetail } from './eip6963'
+import { createWalletConnectConnector, isWalletConnectConfigured } from './walletConnect'
+import { EIP1193Provider, WalletConnector } from './types'
+
+export * from './types'
+
+const STORAGE_KEY = 'walletConnector'
+
+const connectorCache = new Map<string, WalletConnector>()
+const listeners = new Set<(connectors: WalletConnector[]) => void>()
+let activeConnectorId: string | null = null
+
+const fromDetail = ({ info, provider }: EIP6963ProviderDetail) => {
+  const id = `eip6963:${info.rdns}`
+  let connector = connectorCache.get(id)
+  if (!connector || connector.getProvider() !== provider) {
+    connector = createInjectedConnector(provider, {
+      id,
+      name: info.name,
+      icon: info.icon,
+      type: 'eip6963',
+    })
+    connectorCache.set(id, connector)
+  }
+  return connector
+}
+
+// EIP-6963을 지원하지 않는 지갑을 위한 window.ethereum 커넥터
+const getLegacyConnector = () => {
+  if (typeof window === 'undefined' || !window.ethereum) return null
+
+  let connector = connectorCache.get('injected')
+  if (!connector) {
+    connector = createInjectedConnector(window.ethereum, {
+      id: 'injected',
+      name: '브라우저 지갑',
+      type: 'injected',
+    })
+    connectorCache.set('injected', connector)
+  }
+  return connector
+}
+
+// 프로젝트 ID나 릴레이 URL이 설정된 경우에만 사용하는 WalletConnect 커넥터
+const getWalletConnectConnector = () => {
+  if (typeof window === 'undefined' || !isWalletConnectConfigured()) return null
+
+  let connector = connectorCache.get('walletconnect')
+  if (!connector) {
+    connector = createWalletConnectConnector()
+    connectorCache.set('walletconnect', connector)
+  }
+  return connector
+}
+
+/**
+ * 사용 가능한 모든 커넥터
+ * EIP-6963 지갑이 하나도 없을 때만 window.ethereum을 목록에 넣습니다.
+ */
+export const getConnectors = (): WalletConnector[] => {
+  const announced = getDiscoveredProviders().map(fromDetail)
+  const injected = announced.length > 0 ? announced : [getLegacyConnector()]
+  return [...injected, getWalletConnectConnector()].filter(
+    (connector): connector is WalletConnector => connector !== null
+  )
+}
+
+/**
+ * 커넥터 목록이 바뀌면 알림을 받습니다.
+ */
+export const subscribeConnectors = (listener: (connectors: WalletConnector[]) => void) => {
+  listeners.add(listener)
+  const unsubscribe = subscribeProviders(() => listener(getConnectors()))
+  return () => {
+    listeners.delete(listener)
+    unsubscribe()
+  }
+}
+
+const notifyConnectors = () => {
+  const connectors = getConnectors()
+  listeners.forEach((listener) => listener(connectors))
+}
+
+/**
+ * 현재 사용 중인 커넥터
+ * 선택 기록이 없거나 선택한 지갑이 사라졌으면 첫 번째 커넥터를 사용합니다.
+ */
+export const getActiveConnector = (): WalletConnector | null => {
+  const connectors = getConnectors()
+  if (activeConnectorId === null && typeof localStorage !== 'undefined') {
+    activeConnectorId = localStorage.getItem(STORAGE_KEY)
+  }
+  return (
+    connectors.find((connector) => connector.id === activeConnectorId) ?? connectors[0] ?? null
+  )
+}
+
+/**
+ * 사용할 커넥터를 선택하고 새로고침 후에도 유지되도록 저장합니다.
+ */
+export const setActiveConnector = (id: string | null) => {
+  activeConnectorId = id
+  if (typeof localStorage !== 'undefined') {
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id)
+    } else {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }
+  notifyConnectors()
+}
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * 주입형(브라우저 확장) 지갑 커넥터
+ * EIP-6963으로 발견한 지갑과 기존 window.ethereum 모두 이 커넥터로 감쌉니다.
+ */
+
+import { NetworkConfig, toAddEthereumChainParams, toHexChainId } from '../networks'
+import { ConnectorEvents, ConnectorType, EIP1193Provider, WalletConnector } from './types'
+
+interface InjectedConnectorOptions {
+  id: string
+  name: string
+  icon?: string
+  type: ConnectorType
+}
+
+/**
+ * 지갑을 지정한 체인으로 전환합니다. 지갑에 체인이 없으면 추가합니다. (EIP-3326, EIP-3085)
+ */
+export const requestSwitchChain = async (
+  provider: EIP1193Provider,
+  network: NetworkConfig
+) => {
+  try {
+    await provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: toHexChainId(network.chainId) }],
+    })
+  } catch (switchError) {
+    // 네트워크가 없으면 추가
+    if ((switchError as { code?: number }).code === 4902) {
+      await provider.request({
+        method: 'wallet_addEthereumChain',
+        params: [toAddEthereumChainParams(network)],
+      })
+    } else {
+      throw switchError
+    }
+  }
+}
+
+export const createInjectedConnector = (
+  provider: EIP1193Provider,
+  { id, name, icon, type }: InjectedConnectorOptions
+): WalletConnector => {
+  const getChainId = async () => Number(await provider.request({ method: 'eth_chainId' }))
+
+  return {
+    id,
+    name,
+    icon,
+    type,
+
+    async connect(network) {
+      const accounts = (await provider.request({ method: 'eth_requestAccounts' })) as string[]
+      if (accounts.length === 0) {
+        throw new Error('연결할 계정이 없습니다.')
+      }
+
+      if ((await getChainId()) !== network.chainId) {
+        await requestSwitchChain(provider, network)
+      }
+      return { address: accounts[0], chainId: await getChainId() }
+    },
+
+    async disconnect() {
+      // 권한 회수를 지원하는 지갑(MetaMask 등)은 연결 자체를 해제합니다.
+      try {
+        await provider.request({
+          method: 'wallet_revokePermissions',
+          params: [{ eth_accounts: {} }],
+        })
+      } catch {
+        // 지원하지 않는 지갑은 앱에서만 연결을 잊습니다.
+      }
+    },
+
+    async getAccounts() {
+      return (await provider.request({ method: 'eth_accounts' })) as string[]
+    },
+
+    getChainId,
+
+    switchChain(network) {
+      return requestSwitchChain(provider, network)
+    },
+
+    getProvider() {
+      return provider
+    },
+
+    on(event, listener) {
+      let handler: (...args: unknown[]) => void
+      if (event === 'chainChanged') {
+        handler = (chainId) => (listener as ConnectorEvents['chainChanged'])(Number(chainId))
+      } else if (event === 'accountsChanged') {
+        handler = (accounts) =>
+          (listener as ConnectorEvents['accountsChanged'])(accounts as string[])
+      } else if (event === 'disconnect') {
+        handler = () => (listener as ConnectorEvents['disconnect'])()
+      } else {
+        // 주입형 지갑은 QR 페어링을 사용하지 않습니다.
+        return () => {}
+      }
+
+      provider.on?.(event, handler)
+      return () => provider.removeListener?.(event, handler)
+    },
+  }
+}
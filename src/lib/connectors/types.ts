@@ -0,0 +1,55 @@
+/**
+ * 지갑 커넥터 공통 타입
+ * 주입형 지갑(EIP-6963 포함)과 WalletConnect 등 모든 커넥터가 같은 인터페이스를 구현합니다.
+ */
+
+import { NetworkConfig } from '../networks'
+
+export interface RequestArguments {
+  method: string
+  params?: unknown[] | Record<string, unknown>
+}
+
+// EIP-1193 프로바이더
+export interface EIP1193Provider {
+  request(args: RequestArguments): Promise<unknown>
+  on?(event: string, listener: (...args: unknown[]) => void): void
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void
+}
+
+// EIP-6963 지갑 정보
+export interface EIP6963ProviderInfo {
+  uuid: string
+  name: string
+  icon: string
+  rdns: string
+}
+
+export type ConnectorType = 'injected' | 'eip6963' | 'walletconnect'
+
+export type ConnectorEvents = {
+  accountsChanged: (accounts: string[]) => void
+  chainChanged: (chainId: number) => void
+  disconnect: () => void
+  // QR 페어링이 필요한 커넥터(WalletConnect)가 연결 URI를 만들었을 때
+  displayUri: (uri: string) => void
+}
+
+export interface WalletConnector {
+  id: string
+  name: string
+  icon?: string
+  type: ConnectorType
+  // 계정 연결 요청 후 선택한 네트워크로 전환
+  connect(network: NetworkConfig): Promise<{ address: string; chainId: number }>
+  disconnect(): Promise<void>
+  // 진행 중인 연결 요청 취소 (QR 모달 닫기 등)
+  abortConnect?(): void
+  // 팝업 없이 이미 승인된 계정 조회
+  getAccounts(): Promise<string[]>
+  getChainId(): Promise<number>
+  switchChain(network: NetworkConfig): Promise<void>
+  getProvider(): EIP1193Provider
+  // 이벤트 구독, 반환된 함수로 구독 해제
+  on<E extends keyof ConnectorEvents>(event: E, listener: ConnectorEvents[E]): () => void
+}
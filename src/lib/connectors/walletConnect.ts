@@ -0,0 +1,242 @@
+/**
+ * WalletConnect v2 커넥터
+ * 모바일 지갑과 QR 코드로 페어링합니다. 세션은 브라우저 저장소에 유지되어 새로고침 후에도 이어지며,
+ * 세션이 만료되거나 지갑에서 연결을 끊으면 disconnect 이벤트를 보냅니다.
+ * NEXT_PUBLIC_WALLETCONNECT_RELAY_URL을 지정하면 로컬 릴레이 스텁에 연결할 수 있습니다.
+ */
+
+import type UniversalProvider from '@walletconnect/universal-provider'
+import { NETWORKS, NetworkConfig, isNetworkDeployed, toHexChainId } from '../networks'
+import { ConnectorEvents, EIP1193Provider, RequestArguments, WalletConnector } from './types'
+
+const PROJECT_ID = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || ''
+const RELAY_URL = process.env.NEXT_PUBLIC_WALLETCONNECT_RELAY_URL || undefined
+
+const METHODS = [
+  'eth_sendTransaction',
+  'personal_sign',
+  'eth_signTypedData_v4',
+  'wallet_switchEthereumChain',
+  'wallet_addEthereumChain',
+]
+const EVENTS = ['chainChanged', 'accountsChanged']
+
+type Listeners = { [E in keyof ConnectorEvents]: Set<ConnectorEvents[E]> }
+
+export const isWalletConnectConfigured = () => Boolean(PROJECT_ID || RELAY_URL)
+
+const toCaipChainId = (chainId: number) => `eip155:${chainId}`
+
+// 세션 계정 형식: eip155:<chainId>:<address>
+const parseSessionAccounts = (accounts: string[], chainId?: number) => {
+  const addresses = accounts
+    .map((account) => account.split(':'))
+    .filter(([, id]) => chainId === undefined || Number(id) === chainId)
+    .map(([, , address]) => address)
+  return Array.from(new Set(addresses))
+}
+
+export const createWalletConnectConnector = (): WalletConnector => {
+  const listeners: Listeners = {
+    accountsChanged: new Set(),
+    chainChanged: new Set(),
+    disconnect: new Set(),
+    displayUri: new Set(),
+  }
+  const emit = <E extends keyof ConnectorEvents>(
+    event: E,
+    ...args: Parameters<ConnectorEvents[E]>
+  ) => {
+    listeners[event].forEach((listener) =>
+      (listener as (...params: Parameters<ConnectorEvents[E]>) => void)(...args)
+    )
+  }
+
+  const deployedNetworks = NETWORKS.filter(isNetworkDeployed)
+  let providerPromise: Promise<UniversalProvider> | null = null
+  let chainId = deployedNetworks[0]?.chainId ?? 1
+  let abortPairing: ((reason: Error) => void) | null = null
+
+  // 세션에서 승인된 체인 (chains가 없는 지갑도 있어 계정 목록의 체인도 함께 봅니다)
+  const getSessionChains = (provider: UniversalProvider) => {
+    const namespace = provider.session?.namespaces.eip155
+    const chains = [
+      ...(namespace?.chains ?? []),
+      ...(namespace?.accounts ?? []).map((account) => account.split(':').slice(0, 2).join(':')),
+    ]
+    return Array.from(new Set(chains.map((chain) => Number(chain.split(':')[1]))))
+  }
+
+  const init = () => {
+    if (providerPromise) return providerPromise
+
+    providerPromise = (async () => {
+      // 번들 크기를 줄이기 위해 WalletConnect를 선택했을 때만 불러옵니다.
+      const { default: Provider } = await import('@walletconnect/universal-provider')
+      const provider = await Provider.init({
+        projectId: PROJECT_ID,
+        relayUrl: RELAY_URL,
+        metadata: {
+          name: 'ERC-721 NFT 테스트 앱',
+          description: 'NFT 민팅 및 관리',
+          url: window.location.origin,
+          icons: [],
+        },
+      })
+
+      // 저장된 세션이 있으면 마지막 체인을 복원
+      const sessionChains = getSessionChains(provider)
+      if (sessionChains.length > 0 && !sessionChains.includes(chainId)) {
+        chainId = sessionChains[0]
+      }
+
+      provider.on('display_uri', (uri: string) => emit('displayUri', uri))
+      provider.on('accountsChanged', (accounts: string[]) => emit('accountsChanged', accounts))
+      provider.on('chainChanged', (next: string | number) => {
+        chainId = Number(next)
+        emit('chainChanged', chainId)
+      })
+      provider.on('session_update', () => {
+        const accounts = provider.session?.namespaces.eip155?.accounts ?? []
+        emit('accountsChanged', parseSessionAccounts(accounts, chainId))
+      })
+      provider.on('disconnect', () => emit('disconnect'))
+      // 세션 만료는 SignClient에서만 알려주므로 직접 구독합니다.
+      provider.client.on('session_expire', () => {
+        console.warn('WalletConnect 세션이 만료되었습니다.')
+        emit('disconnect')
+      })
+
+      return provider
+    })().catch((error) => {
+      providerPromise = null
+      throw error
+    })
+
+    return providerPromise
+  }
+
+  // BrowserProvider에 넘길 EIP-1193 어댑터 (초기화 전에도 바로 만들 수 있도록 지연 위임)
+  const eip1193: EIP1193Provider = {
+    async request(args: RequestArguments) {
+      const provider = await init()
+      if (!provider.session) {
+        throw Object.assign(new Error('WalletConnect 세션이 없습니다. 다시 연결해주세요.'), {
+          code: 4100,
+        })
+      }
+      return provider.request(args, toCaipChainId(chainId))
+    },
+  }
+
+  const switchChain = async (network: NetworkConfig) => {
+    const provider = await init()
+    if (!provider.session) {
+      chainId = network.chainId
+      return
+    }
+
+    // 세션에서 승인된 체인이면 로컬에서 기본 체인만 바꾸고, 아니면 지갑에 전환을 요청합니다.
+    if (!getSessionChains(provider).includes(network.chainId)) {
+      await provider.request(
+        {
+          method: 'wallet_switchEthereumChain',
+          params: [{ chainId: toHexChainId(network.chainId) }],
+        },
+        toCaipChainId(chainId)
+      )
+    }
+    provider.setDefaultChain(toCaipChainId(network.chainId), network.rpcUrls[0])
+    chainId = network.chainId
+    emit('chainChanged', chainId)
+  }
+
+  return {
+    id: 'walletconnect',
+    name: 'WalletConnect',
+    type: 'walletconnect',
+
+    async connect(network) {
+      const provider = await init()
+
+      if (!provider.session) {
+        const chains = deployedNetworks.map((item) => toCaipChainId(item.chainId))
+        const rpcMap = Object.fromEntries(
+          deployedNetworks.map((item) => [String(item.chainId), item.rpcUrls[0]])
+        )
+
+        const aborted = new Promise<never>((_, reject) => {
+          abortPairing = reject
+        })
+        try {
+          await Promise.race([
+            provider.connect({
+              optionalNamespaces: {
+                eip155: {
+                  chains,
+                  methods: METHODS,
+                  events: EVENTS,
+                  rpcMap,
+                  defaultChain: toCaipChainId(network.chainId),
+                },
+              },
+            }),
+            aborted,
+          ])
+        } finally {
+          abortPairing = null
+        }
+      }
+
+      if (chainId !== network.chainId) {
+        await switchChain(network)
+      }
+
+      const accounts = parseSessionAccounts(
+        provider.session?.namespaces.eip155?.accounts ?? [],
+        chainId
+      )
+      if (accounts.length === 0) {
+        throw new Error('연결할 계정이 없습니다.')
+      }
+      return { address: accounts[0], chainId }
+    },
+
+    abortConnect() {
+      if (!abortPairing) return
+      providerPromise?.then((provider) => provider.abortPairingAttempt())
+      abortPairing(Object.assign(new Error('WalletConnect 연결이 취소되었습니다.'), { code: 4001 }))
+    },
+
+    async disconnect() {
+      if (!providerPromise) return
+      const provider = await providerPromise
+      if (provider.session) {
+        await provider.disconnect()
+      }
+    },
+
+    async getAccounts() {
+      const provider = await init()
+      return parseSessionAccounts(provider.session?.namespaces.eip155?.accounts ?? [], chainId)
+    },
+
+    async getChainId() {
+      await init()
+      return chainId
+    },
+
+    switchChain,
+
+    getProvider() {
+      return eip1193
+    },
+
+    on(event, listener) {
+      listeners[event].add(listener as never)
+      return () => {
+        listeners[event].delete(listener as never)
+      }
+    },
+  }
+}
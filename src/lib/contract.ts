@@ -1,11 +1,128 @@
 import { ethers } from 'ethers'
-import { contractAddress } from './constants'
+import { NetworkConfig } from './networks'
+import { multicall, ContractCall } from './multicall'
 import abi from './abi.json'
 
-export const getContract = (provider: ethers.Provider) => {
-  return new ethers.Contract(contractAddress, abi, provider)
+export const getContract = (provider: ethers.Provider, network: NetworkConfig) => {
+  return new ethers.Contract(network.contractAddress, abi, provider)
 }
 
-export const getContractWithSigner = (signer: ethers.Signer) => {
-  return new ethers.Contract(contractAddress, abi, signer)
+export const getContractWithSigner = (signer: ethers.Signer, network: NetworkConfig) => {
+  return new ethers.Contract(network.contractAddress, abi, signer)
+}
+
+// safeTransferFrom은 bytes 인자를 받는 오버로드가 있어, 옵션을 넘길 때는 시그니처로 지정해야 합니다.
+export const SAFE_TRANSFER_FROM = 'safeTransferFrom(address,address,uint256)'
+
+export type TokenField = 'ownerOf' | 'tokenURI' | 'getApproved'
+
+export type TokenData = {
+  tokenId: string
+  owner?: string
+  tokenURI?: string
+  approved?: string
+  exists: boolean
+}
+
+export const contractInterface = new ethers.Interface(abi)
+
+/**
+ * 여러 토큰의 ownerOf / tokenURI / getApproved를 Multicall로 한 번에 조회합니다.
+ * ownerOf가 실패한 토큰(소각되었거나 존재하지 않음)은 exists가 false입니다.
+ */
+export const readTokenData = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  tokenIds: string[],
+  fields: TokenField[] = ['ownerOf', 'tokenURI']
+): Promise<TokenData[]> => {
+  const calls: ContractCall[] = tokenIds.flatMap((tokenId) =>
+    fields.map((method) => ({
+      target: network.contractAddress,
+      iface: contractInterface,
+      method,
+      args: [tokenId],
+    }))
+  )
+  const results = await multicall(provider, calls)
+
+  return tokenIds.map((tokenId, i) => {
+    const data: TokenData = { tokenId, exists: true }
+    fields.forEach((field, j) => {
+      const result = results[i * fields.length + j]
+      if (field === 'ownerOf') {
+        data.exists = result.success
+        if (result.success) data.owner = String(result.value)
+      } else if (field === 'tokenURI') {
+        data.tokenURI = result.success ? String(result.value) : ''
+      } else {
+        data.approved = result.success ? String(result.value) : ethers.ZeroAddress
+      }
+    })
+    return data
+  })
+}
+
+/**
+ * 민팅 트랜잭션 영수증의 Transfer(0x0 → to) 로그에서 새 토큰 ID를 찾습니다.
+ */
+export const getMintedTokenId = (receipt: ethers.TransactionReceipt) => {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contractInterface.parseLog(log)
+      if (parsed?.name === 'Transfer' && parsed.args.from === ethers.ZeroAddress) {
+        return parsed.args.tokenId.toString() as string
+      }
+    } catch {
+      // 다른 컨트랙트의 로그는 무시합니다.
+    }
+  }
+  return undefined
+}
+
+const DEPLOYMENT_BLOCK_STORAGE_PREFIX = 'deploymentBlock'
+const deploymentBlocks = new Map<string, number>()
+
+/**
+ * 컨트랙트 배포 블록을 반환합니다. 설정에 없으면 getCode로 코드가 처음 나타난 블록을 이분 탐색하고
+ * 결과를 localStorage에 저장해 다음 세션에서는 다시 찾지 않습니다.
+ * 과거 상태를 조회할 수 없는 RPC라서 찾지 못하면 0을 반환합니다.
+ */
+export const resolveDeploymentBlock = async (
+  provider: ethers.Provider,
+  network: NetworkConfig
+): Promise<number> => {
+  if (network.deploymentBlock !== null) return network.deploymentBlock
+
+  const key = `${DEPLOYMENT_BLOCK_STORAGE_PREFIX}:${network.chainId}:${network.contractAddress.toLowerCase()}`
+  const cached = deploymentBlocks.get(key)
+  if (cached !== undefined) return cached
+
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null
+  if (saved !== null && Number.isInteger(Number(saved))) {
+    deploymentBlocks.set(key, Number(saved))
+    return Number(saved)
+  }
+
+  try {
+    let low = 0
+    let high = await provider.getBlockNumber()
+    if ((await provider.getCode(network.contractAddress, high)) === '0x') return 0
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2)
+      if ((await provider.getCode(network.contractAddress, middle)) === '0x') {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    deploymentBlocks.set(key, low)
+    if (typeof localStorage !== 'undefined') localStorage.setItem(key, String(low))
+    return low
+  } catch (error) {
+    console.warn('배포 블록을 찾지 못해 0번 블록부터 조회합니다:', error)
+    return 0
+  }
 }
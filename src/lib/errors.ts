@@ -0,0 +1,244 @@
+/**
+ * 오류 해석
+ * ethers·지갑·RPC가 던진 오류에서 컨트랙트 커스텀 에러(ABI), 지갑 오류 코드, 잔액 부족, RPC 오류를 찾아
+ * 사용자에게 보여줄 메시지와 해결 방법으로 바꿉니다.
+ */
+
+import { ethers } from 'ethers'
+import { contractInterface } from './contract'
+import { formatAddress } from './web3'
+
+// rejected: 사용자가 지갑에서 거절 / funds: 잔액 부족 / transaction: nonce·가스 문제
+export type ErrorKind =
+  | 'rejected'
+  | 'wallet'
+  | 'contract'
+  | 'funds'
+  | 'transaction'
+  | 'network'
+  | 'unknown'
+
+export interface DecodedError {
+  kind: ErrorKind
+  message: string
+  // 사용자가 해볼 수 있는 조치
+  remedy?: string
+  // 커스텀 에러 이름 또는 오류 코드 (예: ERC721NonexistentToken, 4902, INSUFFICIENT_FUNDS)
+  code?: string
+}
+
+type ErrorDescription = Pick<DecodedError, 'message' | 'remedy'>
+
+const token = (value: unknown) => `#${String(value)}`
+const account = (value: unknown) => formatAddress(String(value))
+
+// OpenZeppelin v5 ERC721 / Ownable 커스텀 에러
+const CONTRACT_ERRORS: Record<string, (args: ethers.Result) => ErrorDescription> = {
+  ERC721NonexistentToken: ([tokenId]) => ({
+    message: `토큰 ${token(tokenId)}이(가) 존재하지 않습니다.`,
+    remedy: '이미 소각되었을 수 있습니다. 목록을 새로고침한 뒤 토큰 ID를 확인해주세요.',
+  }),
+  ERC721InsufficientApproval: ([operator, tokenId]) => ({
+    message: `${account(operator)}은(는) 토큰 ${token(tokenId)}을(를) 전송할 권한이 없습니다.`,
+    remedy: '토큰 소유자에게 승인(approve)을 받은 뒤 다시 시도해주세요.',
+  }),
+  ERC721IncorrectOwner: ([sender, tokenId, owner]) => ({
+    message: `토큰 ${token(tokenId)}의 소유자는 ${account(owner)}입니다. (보내는 주소 ${account(sender)})`,
+    remedy: '이미 전송되었을 수 있습니다. 목록을 새로고침해 현재 소유자를 확인해주세요.',
+  }),
+  ERC721InvalidApprover: ([approver]) => ({
+    message: `${account(approver)}은(는) 이 토큰을 승인할 권한이 없습니다.`,
+    remedy: '토큰 소유자 또는 전체 승인을 받은 지갑으로 연결해주세요.',
+  }),
+  ERC721InvalidOperator: ([operator]) => ({
+    message: `${account(operator)}은(는) 운영자로 지정할 수 없는 주소입니다.`,
+    remedy: '0x0이 아닌 다른 주소를 입력해주세요.',
+  }),
+  ERC721InvalidOwner: ([owner]) => ({
+    message: `${account(owner)}은(는) 올바른 소유자 주소가 아닙니다.`,
+  }),
+  ERC721InvalidReceiver: ([receiver]) => ({
+    message: `${account(receiver)}은(는) NFT를 받을 수 없는 주소입니다.`,
+    remedy: '일반 지갑 주소나 ERC721Receiver를 구현한 컨트랙트 주소로 보내주세요.',
+  }),
+  ERC721InvalidSender: ([sender]) => ({
+    message: `${account(sender)}에서 보낼 수 없습니다. 이미 민팅된 토큰일 수 있습니다.`,
+    remedy: '목록을 새로고침한 뒤 다시 시도해주세요.',
+  }),
+  OwnableUnauthorizedAccount: ([caller]) => ({
+    message: `${account(caller)}은(는) 컨트랙트 소유자가 아닙니다.`,
+    remedy: '컨트랙트 소유자 지갑으로 연결한 뒤 다시 시도해주세요.',
+  }),
+  OwnableInvalidOwner: ([owner]) => ({
+    message: `${account(owner)}에게는 소유권을 이전할 수 없습니다.`,
+    remedy: '소유권을 없애려면 이전 대신 소유권 포기를 사용해주세요.',
+  }),
+  Error: ([reason]) => ({
+    message: `컨트랙트가 실행을 거부했습니다: ${String(reason)}`,
+  }),
+  Panic: ([code]) => ({
+    message: `컨트랙트 내부 오류가 발생했습니다. (Panic 0x${BigInt(code).toString(16)})`,
+  }),
+}
+
+// 지갑(EIP-1193)·JSON-RPC·ethers 오류 코드
+const CODE_ERRORS: Record<string, Omit<DecodedError, 'code'>> = {
+  ACTION_REJECTED: { kind: 'rejected', message: '지갑에서 요청을 거절했습니다.' },
+  '4001': { kind: 'rejected', message: '지갑에서 요청을 거절했습니다.' },
+  '4100': {
+    kind: 'wallet',
+    message: '지갑이 이 계정의 사용을 허용하지 않았습니다.',
+    remedy: '지갑을 다시 연결해주세요.',
+  },
+  '4900': {
+    kind: 'wallet',
+    message: '지갑이 네트워크에 연결되어 있지 않습니다.',
+    remedy: '지갑의 네트워크 연결 상태를 확인해주세요.',
+  },
+  '4902': {
+    kind: 'wallet',
+    message: '지갑에 이 네트워크가 추가되어 있지 않습니다.',
+    remedy: '지갑에서 네트워크를 추가한 뒤 다시 시도해주세요.',
+  },
+  '-32002': {
+    kind: 'wallet',
+    message: '지갑에 이미 처리 대기 중인 요청이 있습니다.',
+    remedy: '지갑을 열어 대기 중인 요청을 먼저 처리해주세요.',
+  },
+  INSUFFICIENT_FUNDS: {
+    kind: 'funds',
+    message: '가스비를 낼 잔액이 부족합니다.',
+    remedy: '지갑에 네이티브 토큰을 충전한 뒤 다시 시도해주세요.',
+  },
+  NONCE_EXPIRED: {
+    kind: 'transaction',
+    message: '이미 사용된 nonce로 트랜잭션을 보냈습니다.',
+    remedy: '지갑의 대기 중인 트랜잭션을 확인한 뒤 다시 시도해주세요.',
+  },
+  REPLACEMENT_UNDERPRICED: {
+    kind: 'transaction',
+    message: '같은 nonce의 트랜잭션이 이미 대기 중입니다.',
+    remedy: '대기 중인 트랜잭션이 처리되길 기다리거나 가스비를 높여 다시 보내주세요.',
+  },
+  '-32005': {
+    kind: 'network',
+    message: 'RPC 요청 한도를 초과했습니다.',
+    remedy: '잠시 후 다시 시도해주세요.',
+  },
+  NETWORK_ERROR: {
+    kind: 'network',
+    message: '네트워크에 연결하지 못했습니다.',
+    remedy: '인터넷 연결을 확인하거나 잠시 후 다시 시도해주세요.',
+  },
+  SERVER_ERROR: {
+    kind: 'network',
+    message: 'RPC 서버가 요청을 처리하지 못했습니다.',
+    remedy: '잠시 후 다시 시도해주세요.',
+  },
+  TIMEOUT: {
+    kind: 'network',
+    message: 'RPC 응답 시간이 초과되었습니다.',
+    remedy: '잠시 후 다시 시도해주세요.',
+  },
+}
+
+const NESTED_KEYS = ['error', 'info', 'data', 'cause']
+const MAX_DEPTH = 5
+
+/**
+ * ethers와 지갑이 여러 겹으로 감싼 오류 객체를 펼칩니다.
+ */
+const collectErrorNodes = (
+  error: unknown,
+  depth = 0,
+  nodes: Record<string, unknown>[] = []
+): Record<string, unknown>[] => {
+  if (!error || typeof error !== 'object' || depth > MAX_DEPTH) return nodes
+
+  const record = error as Record<string, unknown>
+  nodes.push(record)
+  for (const key of NESTED_KEYS) collectErrorNodes(record[key], depth + 1, nodes)
+  return nodes
+}
+
+/**
+ * revert 데이터를 ABI의 커스텀 에러(또는 Error(string)/Panic)로 해석합니다.
+ */
+export const decodeRevertData = (data: string) => {
+  try {
+    return contractInterface.parseError(data)
+  } catch {
+    return null
+  }
+}
+
+const findContractError = (nodes: Record<string, unknown>[]) => {
+  for (const node of nodes) {
+    const data = node.data
+    if (typeof data === 'string' && /^0x[0-9a-f]{8}/i.test(data)) {
+      const parsed = decodeRevertData(data)
+      if (parsed) return parsed
+    }
+  }
+  return null
+}
+
+/**
+ * 오류를 종류·메시지·해결 방법으로 해석합니다.
+ */
+export const decodeError = (error: unknown): DecodedError => {
+  const nodes = collectErrorNodes(error)
+  const codes = nodes.flatMap(({ code }) => (code === undefined ? [] : [String(code)]))
+
+  // 거절은 다른 정보보다 우선합니다.
+  const rejection = codes.find((code) => CODE_ERRORS[code]?.kind === 'rejected')
+  if (rejection) return { ...CODE_ERRORS[rejection], code: rejection }
+
+  const revert = findContractError(nodes)
+  const describe = revert && CONTRACT_ERRORS[revert.name]
+  if (revert && describe) {
+    return { kind: 'contract', code: revert.name, ...describe(revert.args) }
+  }
+  if (revert) {
+    return { kind: 'contract', code: revert.name, message: `컨트랙트 오류: ${revert.signature}` }
+  }
+
+  const known = codes.find((code) => CODE_ERRORS[code])
+  if (known) return { ...CODE_ERRORS[known], code: known }
+
+  const text = nodes.map(({ message }) => String(message ?? '')).join(' ')
+  if (/insufficient funds/i.test(text)) {
+    return { ...CODE_ERRORS.INSUFFICIENT_FUNDS, code: 'INSUFFICIENT_FUNDS' }
+  }
+  if (/underpriced/i.test(text)) {
+    return { ...CODE_ERRORS.REPLACEMENT_UNDERPRICED, code: 'REPLACEMENT_UNDERPRICED' }
+  }
+
+  const { code, reason, shortMessage, message } = (error ?? {}) as {
+    code?: string
+    reason?: string | null
+    shortMessage?: string
+    message?: string
+  }
+  if (code === 'CALL_EXCEPTION') {
+    return {
+      kind: 'contract',
+      code,
+      message: reason
+        ? `컨트랙트가 실행을 거부했습니다: ${reason}`
+        : '컨트랙트 실행이 실패했습니다.',
+      remedy: '입력값과 지갑 권한을 확인한 뒤 다시 시도해주세요.',
+    }
+  }
+
+  return { kind: 'unknown', code, message: shortMessage ?? message ?? '' }
+}
+
+/**
+ * alert 등에 보여줄 문장을 만듭니다. 해석할 수 없는 오류는 원래 메시지나 fallback을 사용합니다.
+ */
+export const formatError = (error: unknown, fallback: string) => {
+  const { message, remedy } = decodeError(error)
+  if (!message) return fallback
+  return remedy ? `${message}\n${remedy}` : message
+}
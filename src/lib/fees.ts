@@ -0,0 +1,170 @@
+/**
+ * 가스비 추정
+ * eth_feeHistory의 최근 블록 팁 분포로 느림/보통/빠름 EIP-1559 수수료를 계산하고,
+ * 네이티브 토큰 시세로 법정화폐 환산 금액을 보여줍니다.
+ */
+
+import { ethers } from 'ethers'
+
+export type FeeTier = 'slow' | 'normal' | 'fast'
+
+export interface FeeOption {
+  tier: FeeTier
+  // EIP-1559를 지원하지 않는 체인은 gasPrice만 사용합니다.
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+  // 다음 블록 기본 수수료 기준 예상 가스당 비용
+  expectedFeePerGas: bigint
+  // 지불할 수 있는 최대 가스당 비용
+  maxCostPerGas: bigint
+}
+
+export type TxOverrides = Pick<FeeOption, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>
+
+export const FEE_TIER_LABELS: Record<FeeTier, string> = {
+  slow: '느림',
+  normal: '보통',
+  fast: '빠름',
+}
+
+const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast']
+// 티어별로 사용할 최근 블록 팁 백분위
+const REWARD_PERCENTILES = [10, 50, 90]
+const FEE_HISTORY_BLOCKS = 20
+// eth_feeHistory가 없는 체인에서 gasPrice에 곱할 비율 (%)
+const LEGACY_MULTIPLIERS = [90n, 100n, 125n]
+
+// 시세 조회에 사용할 CoinGecko ID (네이티브 토큰 심볼 기준)
+const PRICE_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+}
+const FIAT_CURRENCY = (process.env.NEXT_PUBLIC_FIAT_CURRENCY || 'krw').toLowerCase()
+const PRICE_CACHE_MS = 60_000
+
+const priceCache = new Map<string, { rate: number; fetchedAt: number }>()
+
+/**
+ * JSON-RPC 요청을 보낼 수 있는 프로바이더를 찾습니다. (FallbackProvider는 첫 번째 RPC 사용)
+ */
+const getRpcProvider = (provider: ethers.Provider) => {
+  if (provider instanceof ethers.JsonRpcApiProvider) return provider
+  if (provider instanceof ethers.FallbackProvider) {
+    const config = provider.providerConfigs.find(
+      (item) => item.provider instanceof ethers.JsonRpcApiProvider
+    )
+    if (config) return config.provider as ethers.JsonRpcApiProvider
+  }
+  return null
+}
+
+const median = (values: bigint[]) => {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const getLegacyOptions = async (provider: ethers.Provider): Promise<FeeOption[]> => {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = await provider.getFeeData()
+  if (maxFeePerGas !== null && maxPriorityFeePerGas !== null) {
+    // 기본 수수료를 알 수 없으므로 모든 티어에 지갑과 같은 값을 사용합니다.
+    return FEE_TIERS.map((tier) => ({
+      tier,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      expectedFeePerGas: gasPrice ?? maxFeePerGas,
+      maxCostPerGas: maxFeePerGas,
+    }))
+  }
+  if (gasPrice === null) throw new Error('가스 가격을 조회하지 못했습니다.')
+
+  return FEE_TIERS.map((tier, i) => {
+    const price = (gasPrice * LEGACY_MULTIPLIERS[i]) / 100n
+    return { tier, gasPrice: price, expectedFeePerGas: price, maxCostPerGas: price }
+  })
+}
+
+/**
+ * 최근 블록의 팁 분포로 티어별 수수료를 계산합니다.
+ * maxFeePerGas는 기본 수수료가 몇 블록 연속으로 올라도 처리되도록 2배 + 팁으로 잡습니다. (ethers 기본값과 같음)
+ */
+export const getFeeOptions = async (provider: ethers.Provider): Promise<FeeOption[]> => {
+  const rpc = getRpcProvider(provider)
+  if (!rpc) return getLegacyOptions(provider)
+
+  try {
+    const history = (await rpc.send('eth_feeHistory', [
+      ethers.toQuantity(FEE_HISTORY_BLOCKS),
+      'latest',
+      REWARD_PERCENTILES,
+    ])) as { baseFeePerGas?: string[]; reward?: string[][] }
+
+    const baseFees = history.baseFeePerGas ?? []
+    if (baseFees.length === 0 || !history.reward) return getLegacyOptions(provider)
+
+    // 마지막 값은 다음 블록의 기본 수수료입니다.
+    const nextBaseFee = BigInt(baseFees[baseFees.length - 1])
+    const rewards = history.reward
+
+    return FEE_TIERS.map((tier, i) => {
+      const maxPriorityFeePerGas = median(
+        rewards.map((block) => BigInt(block[i] ?? 0)).filter((reward) => reward > 0n)
+      )
+      const maxFeePerGas = nextBaseFee * 2n + maxPriorityFeePerGas
+      return {
+        tier,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        expectedFeePerGas: nextBaseFee + maxPriorityFeePerGas,
+        maxCostPerGas: maxFeePerGas,
+      }
+    })
+  } catch (error) {
+    console.error('eth_feeHistory 조회 실패:', error)
+    return getLegacyOptions(provider)
+  }
+}
+
+export const toTxOverrides = ({
+  maxFeePerGas,
+  maxPriorityFeePerGas,
+  gasPrice,
+}: FeeOption): TxOverrides =>
+  gasPrice !== undefined ? { gasPrice } : { maxFeePerGas, maxPriorityFeePerGas }
+
+/**
+ * 네이티브 토큰 1개의 법정화폐 시세. 지원하지 않는 토큰이거나 조회에 실패하면 null
+ */
+export const fetchFiatRate = async (symbol: string): Promise<number | null> => {
+  const id = PRICE_IDS[symbol.toUpperCase()]
+  if (!id) return null
+
+  const cached = priceCache.get(id)
+  if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_MS) return cached.rate
+
+  try {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=${FIAT_CURRENCY}`
+    )
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const data = (await response.json()) as Record<string, Record<string, number>>
+    const rate = data[id]?.[FIAT_CURRENCY]
+    if (typeof rate !== 'number') return null
+
+    priceCache.set(id, { rate, fetchedAt: Date.now() })
+    return rate
+  } catch (error) {
+    console.error('시세 조회 실패:', error)
+    return null
+  }
+}
+
+export const formatFiat = (wei: bigint, rate: number) =>
+  new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency: FIAT_CURRENCY.toUpperCase(),
+    maximumFractionDigits: 2,
+  }).format(Number(ethers.formatEther(wei)) * rate)
+
+export const formatNative = (wei: bigint, symbol: string) =>
+  `${Number(ethers.formatEther(wei)).toFixed(6)} ${symbol}`
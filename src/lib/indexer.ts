@@ -0,0 +1,515 @@
+/**
+ * 소유권 인덱서
+ * Transfer / Approval / ApprovalForAll 로그를 마지막으로 처리한 블록부터 이어서 재생하여
+ * 토큰 소유자, 토큰별 승인, 소유자별 operator 정보를 유지합니다.
+ * 확정된 상태는 브라우저의 IndexedDB에 저장되고, 최근 블록(확정 대기 구간)은
+ * 매 동기화마다 다시 읽어 재조직(reorg)에 대응합니다.
+ * 확정된 구간까지 바뀐 경우에는 저장해 둔 체크포인트 중 체인과 해시가 일치하는
+ * 지점으로 되감고, 그 이후의 로그만 다시 재생합니다.
+ */
+
+import { ethers } from 'ethers'
+import { getContract, readTokenData, resolveDeploymentBlock } from './contract'
+import { INDEXER_CONFIRMATIONS } from './constants'
+import { NetworkConfig } from './networks'
+import { fetchLogs } from './logs'
+
+export interface OwnershipState {
+  owners: Map<string, string>
+  tokensByOwner: Map<string, Set<string>>
+  approvals: Map<string, string>
+  operators: Map<string, Set<string>>
+  tokenURIs: Map<string, string>
+}
+
+export interface OwnershipIndex extends OwnershipState {
+  chainId: number
+  contractAddress: string
+  headBlock: number
+}
+
+interface SerializedState {
+  owners: Record<string, string>
+  approvals: Record<string, string>
+  operators: Record<string, string[]>
+  tokenURIs: Record<string, string>
+}
+
+// 이전에 확정 처리한 블록과 그 시점의 상태 (재조직 시 되감을 지점)
+interface IndexerCheckpoint {
+  block: number
+  hash: string
+  state: SerializedState
+}
+
+interface OwnershipSnapshot extends SerializedState {
+  version: number
+  lastBlock: number
+  lastBlockHash: string | null
+  // 체크포인트 없이 저장된 이전 스냅샷도 그대로 읽을 수 있도록 선택 항목으로 둡니다.
+  checkpoints?: IndexerCheckpoint[]
+}
+
+interface IndexerEntry {
+  state: OwnershipState
+  lastBlock: number
+  lastBlockHash: string | null
+  checkpoints: IndexerCheckpoint[]
+}
+
+export interface SyncOptions {
+  confirmations?: number
+}
+
+const SNAPSHOT_VERSION = 1
+const DB_NAME = 'nft-ownership-index'
+const STORE_NAME = 'snapshots'
+// 보관할 체크포인트 수. 체크포인트는 confirmations 블록 이상 간격을 두므로
+// 확정 구간보다 이 배수만큼 깊은 재조직까지 전체 재색인 없이 되감을 수 있습니다.
+const MAX_CHECKPOINTS = 3
+
+const entries = new Map<string, IndexerEntry>()
+const inflight = new Map<string, Promise<OwnershipIndex>>()
+
+const createEmptyState = (): OwnershipState => ({
+  owners: new Map(),
+  tokensByOwner: new Map(),
+  approvals: new Map(),
+  operators: new Map(),
+  tokenURIs: new Map(),
+})
+
+const cloneState = (state: OwnershipState): OwnershipState => ({
+  owners: new Map(state.owners),
+  tokensByOwner: new Map(
+    Array.from(state.tokensByOwner, ([owner, tokens]) => [owner, new Set(tokens)])
+  ),
+  approvals: new Map(state.approvals),
+  operators: new Map(
+    Array.from(state.operators, ([owner, operators]) => [owner, new Set(operators)])
+  ),
+  tokenURIs: new Map(state.tokenURIs),
+})
+
+const sortTokenIds = (tokenIds: string[]) =>
+  tokenIds.sort((a, b) => {
+    const diff = BigInt(b) - BigInt(a)
+    if (diff === 0n) return 0
+    return diff > 0n ? 1 : -1
+  })
+
+const setOwner = (state: OwnershipState, tokenId: string, owner: string) => {
+  const previous = state.owners.get(tokenId)
+  if (previous) {
+    const tokens = state.tokensByOwner.get(previous.toLowerCase())
+    tokens?.delete(tokenId)
+    if (tokens && tokens.size === 0) {
+      state.tokensByOwner.delete(previous.toLowerCase())
+    }
+  }
+
+  if (owner === ethers.ZeroAddress) {
+    state.owners.delete(tokenId)
+    return
+  }
+
+  state.owners.set(tokenId, owner)
+  const key = owner.toLowerCase()
+  const tokens = state.tokensByOwner.get(key) ?? new Set<string>()
+  tokens.add(tokenId)
+  state.tokensByOwner.set(key, tokens)
+}
+
+const applyLog = (state: OwnershipState, log: ethers.LogDescription) => {
+  switch (log.name) {
+    case 'Transfer': {
+      const tokenId = log.args.tokenId.toString()
+      setOwner(state, tokenId, log.args.to)
+      // ERC721은 전송 시 Approval 이벤트 없이 단일 토큰 승인을 초기화합니다.
+      state.approvals.delete(tokenId)
+      if (log.args.from === ethers.ZeroAddress || log.args.to === ethers.ZeroAddress) {
+        state.tokenURIs.delete(tokenId)
+      }
+      break
+    }
+    case 'Approval': {
+      const tokenId = log.args.tokenId.toString()
+      if (log.args.approved === ethers.ZeroAddress) {
+        state.approvals.delete(tokenId)
+      } else {
+        state.approvals.set(tokenId, log.args.approved)
+      }
+      break
+    }
+    case 'ApprovalForAll': {
+      const owner = log.args.owner.toLowerCase()
+      const operators = state.operators.get(owner) ?? new Set<string>()
+      if (log.args.approved) {
+        operators.add(log.args.operator)
+      } else {
+        operators.delete(log.args.operator)
+      }
+      if (operators.size === 0) {
+        state.operators.delete(owner)
+      } else {
+        state.operators.set(owner, operators)
+      }
+      break
+    }
+    case 'MetadataUpdate':
+      state.tokenURIs.delete(log.args._tokenId.toString())
+      break
+    case 'BatchMetadataUpdate':
+      // 범위가 넓을 수 있으므로 캐시된 URI 중 범위에 포함되는 것만 지웁니다.
+      for (const tokenId of Array.from(state.tokenURIs.keys())) {
+        const id = BigInt(tokenId)
+        if (id >= log.args._fromTokenId && id <= log.args._toTokenId) {
+          state.tokenURIs.delete(tokenId)
+        }
+      }
+      break
+  }
+}
+
+const serializeState = (state: OwnershipState): SerializedState => ({
+  owners: Object.fromEntries(state.owners),
+  approvals: Object.fromEntries(state.approvals),
+  operators: Object.fromEntries(
+    Array.from(state.operators, ([owner, operators]) => [owner, Array.from(operators)])
+  ),
+  tokenURIs: Object.fromEntries(state.tokenURIs),
+})
+
+const deserializeState = (serialized: SerializedState): OwnershipState => {
+  const state = createEmptyState()
+  for (const [tokenId, owner] of Object.entries(serialized.owners)) {
+    setOwner(state, tokenId, owner)
+  }
+  state.approvals = new Map(Object.entries(serialized.approvals))
+  state.operators = new Map(
+    Object.entries(serialized.operators).map(([owner, operators]) => [owner, new Set(operators)])
+  )
+  state.tokenURIs = new Map(Object.entries(serialized.tokenURIs))
+  return state
+}
+
+const toSnapshot = (entry: IndexerEntry): OwnershipSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  lastBlock: entry.lastBlock,
+  lastBlockHash: entry.lastBlockHash,
+  checkpoints: entry.checkpoints,
+  ...serializeState(entry.state),
+})
+
+const fromSnapshot = (snapshot: OwnershipSnapshot): IndexerEntry => ({
+  state: deserializeState(snapshot),
+  lastBlock: snapshot.lastBlock,
+  lastBlockHash: snapshot.lastBlockHash,
+  checkpoints: snapshot.checkpoints ?? [],
+})
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null)
+  }
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.error('IndexedDB 열기 실패:', request.error)
+      resolve(null)
+    }
+  })
+  return databasePromise
+}
+
+const readSnapshot = async (key: string): Promise<OwnershipSnapshot | null> => {
+  const db = await openDatabase()
+  if (!db) return null
+
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    request.onsuccess = () => {
+      const snapshot = request.result as OwnershipSnapshot | undefined
+      resolve(snapshot && snapshot.version === SNAPSHOT_VERSION ? snapshot : null)
+    }
+    request.onerror = () => resolve(null)
+  })
+}
+
+const writeSnapshot = async (key: string, snapshot: OwnershipSnapshot) => {
+  const db = await openDatabase()
+  if (!db) return
+
+  await new Promise<void>((resolve) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(snapshot, key)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => {
+      console.error('인덱스 저장 실패:', transaction.error)
+      resolve()
+    }
+  })
+}
+
+const fetchParsedLogs = async (
+  provider: ethers.Provider,
+  contract: ethers.Contract,
+  fromBlock: number,
+  toBlock: number
+) => {
+  if (fromBlock > toBlock) return []
+
+  const address = await contract.getAddress()
+  const logs = await fetchLogs(provider, { address }, fromBlock, toBlock)
+  const parsed: ethers.LogDescription[] = []
+  for (const log of logs) {
+    const description = contract.interface.parseLog(log)
+    if (description) parsed.push(description)
+  }
+  return parsed
+}
+
+const createEmptyEntry = (deploymentBlock: number): IndexerEntry => ({
+  state: createEmptyState(),
+  lastBlock: deploymentBlock - 1,
+  lastBlockHash: null,
+  checkpoints: [],
+})
+
+/**
+ * 최근 체크포인트부터 거슬러 올라가며 체인과 해시가 일치하는 공통 조상을 찾아 그 상태로 되감습니다.
+ * 일치하는 지점이 없을 때만 배포 블록부터 다시 인덱싱합니다.
+ */
+const rewindEntry = async (
+  provider: ethers.Provider,
+  deploymentBlock: number,
+  entry: IndexerEntry
+): Promise<IndexerEntry> => {
+  const checkpoints = [...entry.checkpoints]
+  while (checkpoints.length > 0) {
+    const checkpoint = checkpoints.pop() as IndexerCheckpoint
+    const block = await provider.getBlock(checkpoint.block)
+    if (block && block.hash === checkpoint.hash) {
+      console.warn('재조직이 감지되어 체크포인트로 되감습니다:', entry.lastBlock, '→', checkpoint.block)
+      return {
+        state: deserializeState(checkpoint.state),
+        lastBlock: checkpoint.block,
+        lastBlockHash: checkpoint.hash,
+        checkpoints,
+      }
+    }
+  }
+
+  console.warn('재조직이 감지되었지만 일치하는 체크포인트가 없어 인덱스를 초기화합니다:', entry.lastBlock)
+  return createEmptyEntry(deploymentBlock)
+}
+
+const loadEntry = async (key: string, deploymentBlock: number): Promise<IndexerEntry> => {
+  const cached = entries.get(key)
+  if (cached) return cached
+
+  const snapshot = await readSnapshot(key)
+  const entry = snapshot
+    ? fromSnapshot(snapshot)
+    : createEmptyEntry(deploymentBlock)
+  entries.set(key, entry)
+  return entry
+}
+
+const runSync = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  key: string,
+  confirmations: number
+): Promise<OwnershipIndex> => {
+  const { chainId } = await provider.getNetwork()
+  if (Number(chainId) !== network.chainId) {
+    throw new Error(`프로바이더가 ${network.chainName} 네트워크에 연결되어 있지 않습니다.`)
+  }
+
+  const contract = getContract(provider, network)
+  const deploymentBlock = await resolveDeploymentBlock(provider, network)
+  let entry = await loadEntry(key, deploymentBlock)
+
+  // 마지막으로 확정 처리한 블록이 재조직으로 바뀌었다면 공통 조상까지 되감습니다.
+  if (entry.lastBlockHash) {
+    const block = await provider.getBlock(entry.lastBlock)
+    if (!block || block.hash !== entry.lastBlockHash) {
+      entry = await rewindEntry(provider, deploymentBlock, entry)
+      entries.set(key, entry)
+    }
+  }
+
+  const headBlock = await provider.getBlockNumber()
+  const safeBlock = headBlock - confirmations
+
+  if (safeBlock > entry.lastBlock) {
+    const logs = await fetchParsedLogs(provider, contract, entry.lastBlock + 1, safeBlock)
+
+    // 로그를 적용하기 전 상태를 체크포인트로 남깁니다. 직전 체크포인트와 confirmations 블록 이상
+    // 떨어져 있을 때만 추가해 적은 수로도 넓은 구간을 덮도록 합니다.
+    if (entry.lastBlockHash) {
+      const newest = entry.checkpoints[entry.checkpoints.length - 1]
+      if (!newest || entry.lastBlock - newest.block >= Math.max(confirmations, 1)) {
+        entry.checkpoints = [
+          ...entry.checkpoints,
+          { block: entry.lastBlock, hash: entry.lastBlockHash, state: serializeState(entry.state) },
+        ].slice(-MAX_CHECKPOINTS)
+      }
+    }
+
+    for (const log of logs) {
+      applyLog(entry.state, log)
+    }
+    const block = await provider.getBlock(safeBlock)
+    entry.lastBlock = safeBlock
+    entry.lastBlockHash = block?.hash ?? null
+    await writeSnapshot(key, toSnapshot(entry))
+  }
+
+  // 확정 대기 구간의 로그는 저장하지 않고 매번 복사본 위에 다시 적용합니다.
+  const view = cloneState(entry.state)
+  const pendingLogs = await fetchParsedLogs(
+    provider,
+    contract,
+    Math.max(entry.lastBlock + 1, deploymentBlock),
+    headBlock
+  )
+  for (const log of pendingLogs) {
+    applyLog(view, log)
+  }
+
+  return {
+    ...view,
+    chainId: network.chainId,
+    contractAddress: network.contractAddress,
+    headBlock,
+  }
+}
+
+/**
+ * 인덱스를 최신 블록까지 동기화합니다.
+ * 같은 컨트랙트에 대한 동시 호출은 하나의 동기화로 합쳐집니다.
+ * @param provider 로그를 조회할 프로바이더 (network와 같은 체인이어야 함)
+ * @param network 인덱싱할 컨트랙트가 배포된 네트워크
+ * @param options confirmations: 재조직에 대비해 저장하지 않을 최근 블록 수
+ * @returns 최신 상태의 소유권 인덱스
+ */
+export async function syncOwnershipIndex(
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  { confirmations = INDEXER_CONFIRMATIONS }: SyncOptions = {}
+): Promise<OwnershipIndex> {
+  const key = `${network.chainId}:${network.contractAddress.toLowerCase()}`
+
+  const running = inflight.get(key)
+  if (running) return running
+
+  const promise = runSync(provider, network, key, confirmations).finally(() => {
+    inflight.delete(key)
+  })
+  inflight.set(key, promise)
+  return promise
+}
+
+/**
+ * 인덱스에 캐시되지 않은 tokenURI를 Multicall로 한 번에 조회해 채웁니다.
+ * 확정된 토큰의 URI는 다음 세션을 위해 저장됩니다.
+ * @param provider 컨트랙트를 호출할 프로바이더
+ * @param network 인덱스의 네트워크
+ * @param index syncOwnershipIndex가 반환한 인덱스
+ * @param tokenIds URI가 필요한 토큰 ID 목록
+ * @returns 토큰 ID → tokenURI (조회 실패 시 빈 문자열)
+ */
+export async function resolveTokenURIs(
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  index: OwnershipIndex,
+  tokenIds: string[]
+): Promise<Map<string, string>> {
+  const missing = tokenIds.filter((tokenId) => !index.tokenURIs.has(tokenId))
+
+  if (missing.length > 0) {
+    const key = `${index.chainId}:${index.contractAddress.toLowerCase()}`
+    const entry = entries.get(key)
+    const fetched = await readTokenData(provider, network, missing, ['tokenURI'])
+
+    let persisted = false
+    for (const { tokenId, tokenURI } of fetched) {
+      if (!tokenURI) continue
+      index.tokenURIs.set(tokenId, tokenURI)
+      if (entry && entry.state.owners.has(tokenId)) {
+        entry.state.tokenURIs.set(tokenId, tokenURI)
+        persisted = true
+      }
+    }
+
+    if (entry && persisted) {
+      await writeSnapshot(key, toSnapshot(entry))
+    }
+  }
+
+  return new Map(tokenIds.map((tokenId) => [tokenId, index.tokenURIs.get(tokenId) ?? '']))
+}
+
+/**
+ * 인덱스에 존재하는 모든 토큰 ID (내림차순)
+ */
+export function getAllTokenIds(index: OwnershipIndex): string[] {
+  return sortTokenIds(Array.from(index.owners.keys()))
+}
+
+/**
+ * 주소가 현재 소유한 토큰 ID 목록 (내림차순)
+ */
+export function getTokensOwnedBy(index: OwnershipIndex, owner: string): string[] {
+  return sortTokenIds(Array.from(index.tokensByOwner.get(owner.toLowerCase()) ?? []))
+}
+
+/**
+ * 주소가 대리전송할 수 있는 토큰 목록
+ * 단일 토큰 승인이 operator 승인보다 우선합니다.
+ */
+export function getTokensApprovedFor(
+  index: OwnershipIndex,
+  spender: string
+): Array<{ tokenId: string; owner: string; approvalType: 'single' | 'all' }> {
+  const spenderLower = spender.toLowerCase()
+  const result: Array<{ tokenId: string; owner: string; approvalType: 'single' | 'all' }> = []
+
+  for (const tokenId of getAllTokenIds(index)) {
+    const owner = index.owners.get(tokenId)
+    if (!owner) continue
+
+    const approved = index.approvals.get(tokenId)
+    if (approved && approved.toLowerCase() === spenderLower) {
+      result.push({ tokenId, owner, approvalType: 'single' })
+      continue
+    }
+
+    const operators = index.operators.get(owner.toLowerCase())
+    if (
+      operators &&
+      Array.from(operators).some((operator) => operator.toLowerCase() === spenderLower)
+    ) {
+      result.push({ tokenId, owner, approvalType: 'all' })
+    }
+  }
+
+  return result
+}
+
+/**
+ * 주소가 전체 승인(setApprovalForAll)한 operator 목록
+ */
+export function getOperatorsOf(index: OwnershipIndex, owner: string): string[] {
+  return Array.from(index.operators.get(owner.toLowerCase()) ?? [])
+}
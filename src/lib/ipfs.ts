@@ -1,142 +1,110 @@
 /**
  * IPFS 업로드 유틸리티
- * Pinata API를 사용하여 파일과 메타데이터를 IPFS에 업로드합니다.
+ * 서버 업로드 API(/api/ipfs/*)를 통해 파일과 메타데이터를 IPFS에 업로드합니다.
+ * 피닝 서비스 자격 증명은 서버에만 있으며 브라우저로 전달되지 않습니다.
  */
 
-export interface PinataResponse {
-  IpfsHash: string
-  PinSize: number
-  Timestamp: string
+import { computeCID, isSameCID } from './cid'
+import { NFTMetadata, formatMetadataErrors, validateMetadata } from './metadata'
+import { getRankedGateways } from './resolver'
+
+export type { NFTMetadata } from './metadata'
+
+export interface FileUploadResult {
+  cid: string
+  // 이미 고정된 파일이라 업로드를 건너뛰었는지 여부
+  reused: boolean
+}
+
+export class CIDMismatchError extends Error {
+  constructor(public expected: string, public actual: string) {
+    super(
+      `업로드된 파일의 CID가 일치하지 않습니다.\n예상: ${expected}\n응답: ${actual}\n파일이 변조되었을 수 있어 민팅을 중단합니다.`
+    )
+    this.name = 'CIDMismatchError'
+  }
+}
+
+const readApiResponse = async <T>(response: Response, fallback: string): Promise<T> => {
+  const data = await response.json().catch(() => null)
+  if (!response.ok) {
+    console.error('IPFS 업로드 API 오류:', response.status, data)
+    throw new Error(data?.error || `${fallback} (${response.status}: ${response.statusText})`)
+  }
+  return data as T
 }
 
-export interface NFTMetadata {
-  name: string
-  description: string
-  image: string
-  attributes?: Array<{
-    trait_type: string
-    value: string | number
-  }>
+/**
+ * CID가 피닝 서비스에 이미 고정되어 있는지 확인합니다. (SIWE 로그인 필요)
+ */
+export async function isPinned(cid: string): Promise<boolean> {
+  const response = await fetch(`/api/ipfs/pins/${encodeURIComponent(cid)}`, { cache: 'no-store' })
+  const { pinned } = await readApiResponse<{ pinned: boolean }>(response, '고정 상태 확인 실패')
+  return pinned
 }
 
 /**
- * Pinata에 파일 업로드
+ * 서버 업로드 API를 통해 파일을 IPFS에 업로드 (SIWE 로그인 필요)
+ * 업로드 전에 CID를 직접 계산해 이미 고정된 파일이면 건너뛰고,
+ * 업로드 후에는 서버가 돌려준 CID와 비교해 다르면 CIDMismatchError를 던집니다.
  * @param file 업로드할 파일
- * @returns IPFS 해시 (CID)
+ * @returns CID와 재사용 여부
  */
-export async function uploadFileToIPFS(file: File): Promise<string> {
-  const PINATA_JWT = process.env.NEXT_PUBLIC_PINATA_JWT
+export async function uploadFileToIPFS(file: File): Promise<FileUploadResult> {
+  const expected = await computeCID(file)
+  console.log('로컬 CID 계산 완료:', expected)
 
-  if (!PINATA_JWT || PINATA_JWT === 'your_pinata_jwt_token_here') {
-    throw new Error(
-      'Pinata JWT가 설정되지 않았습니다.\n.env.local 파일에 NEXT_PUBLIC_PINATA_JWT를 설정해주세요.\n자세한 내용은 IPFS_SETUP.md를 참고하세요.'
-    )
+  try {
+    if (await isPinned(expected)) {
+      console.log('이미 고정된 파일이라 업로드를 건너뜁니다:', expected)
+      return { cid: expected, reused: true }
+    }
+  } catch (error) {
+    // 확인에 실패해도 업로드는 계속 진행합니다.
+    console.warn('고정 상태 확인 실패:', error)
   }
 
   const formData = new FormData()
   formData.append('file', file)
 
-  // Pinata 옵션 설정
-  const pinataMetadata = JSON.stringify({
-    name: file.name,
+  console.log('IPFS 업로드 시작:', file.name, file.size, 'bytes')
+  const response = await fetch('/api/ipfs/file', {
+    method: 'POST',
+    body: formData,
   })
 
-  const pinataOptions = JSON.stringify({
-    cidVersion: 1,
-  })
-
-  formData.append('pinataMetadata', pinataMetadata)
-  formData.append('pinataOptions', pinataOptions)
-
-  try {
-    console.log('IPFS 업로드 시작:', file.name, file.size, 'bytes')
-    
-    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${PINATA_JWT}`,
-      },
-      body: formData,
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: { message: '알 수 없는 오류' } }))
-      console.error('Pinata API 오류:', errorData)
-      throw new Error(
-        errorData.error?.message || 
-        `파일 업로드 실패 (${response.status}: ${response.statusText})`
-      )
-    }
-
-    const data: PinataResponse = await response.json()
-    console.log('IPFS 업로드 성공:', data.IpfsHash)
-    return data.IpfsHash
-  } catch (error: any) {
-    console.error('IPFS 업로드 오류:', error)
-    if (error.message) {
-      throw error
-    }
-    throw new Error(error.message || '파일 업로드에 실패했습니다.')
+  const { cid } = await readApiResponse<{ cid: string }>(response, '파일 업로드 실패')
+  if (!isSameCID(expected, cid)) {
+    throw new CIDMismatchError(expected, cid)
   }
+  console.log('IPFS 업로드 성공 (CID 검증 완료):', cid)
+  return { cid: expected, reused: false }
 }
 
 /**
- * Pinata에 JSON 메타데이터 업로드
+ * 서버 업로드 API를 통해 JSON 메타데이터를 IPFS에 업로드 (SIWE 로그인 필요)
+ * 업로드 전에 메타데이터를 검증하므로 잘못된 메타데이터로는 민팅할 수 없습니다.
  * @param metadata NFT 메타데이터 객체
  * @returns IPFS 해시 (CID)
  */
 export async function uploadMetadataToIPFS(metadata: NFTMetadata): Promise<string> {
-  const PINATA_JWT = process.env.NEXT_PUBLIC_PINATA_JWT
-
-  if (!PINATA_JWT || PINATA_JWT === 'your_pinata_jwt_token_here') {
-    throw new Error(
-      'Pinata JWT가 설정되지 않았습니다.\n.env.local 파일에 NEXT_PUBLIC_PINATA_JWT를 설정해주세요.\n자세한 내용은 IPFS_SETUP.md를 참고하세요.'
-    )
+  const { valid, metadata: sanitized, errors } = validateMetadata(metadata, 'write')
+  if (!valid) {
+    throw new Error(`메타데이터가 올바르지 않습니다.\n${formatMetadataErrors(errors)}`)
   }
 
-  const pinataMetadata = JSON.stringify({
-    name: `NFT Metadata - ${metadata.name}`,
+  console.log('메타데이터 업로드 시작:', sanitized.name)
+  const response = await fetch('/api/ipfs/json', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(sanitized),
   })
 
-  const pinataOptions = JSON.stringify({
-    cidVersion: 1,
-  })
-
-  try {
-    console.log('메타데이터 업로드 시작:', metadata.name)
-    
-    const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${PINATA_JWT}`,
-      },
-      body: JSON.stringify({
-        pinataContent: metadata,
-        pinataMetadata: JSON.parse(pinataMetadata),
-        pinataOptions: JSON.parse(pinataOptions),
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: { message: '알 수 없는 오류' } }))
-      console.error('Pinata API 오류:', errorData)
-      throw new Error(
-        errorData.error?.message || 
-        `메타데이터 업로드 실패 (${response.status}: ${response.statusText})`
-      )
-    }
-
-    const data: PinataResponse = await response.json()
-    console.log('메타데이터 업로드 성공:', data.IpfsHash)
-    return data.IpfsHash
-  } catch (error: any) {
-    console.error('메타데이터 업로드 오류:', error)
-    if (error.message) {
-      throw error
-    }
-    throw new Error(error.message || '메타데이터 업로드에 실패했습니다.')
-  }
+  const { cid } = await readApiResponse<{ cid: string }>(response, '메타데이터 업로드 실패')
+  console.log('메타데이터 업로드 성공:', cid)
+  return cid
 }
 
 /**
@@ -151,12 +119,12 @@ export function getIPFSUrl(hash: string): string {
 /**
  * IPFS 해시를 HTTP URL로 변환 (게이트웨이 사용)
  * @param hash IPFS 해시 (CID)
- * @param gateway IPFS 게이트웨이 URL (기본값: Pinata 공개 게이트웨이)
+ * @param gateway IPFS 게이트웨이 URL (기본값: 현재 가장 응답이 좋은 게이트웨이)
  * @returns HTTP URL
  */
 export function getIPFSGatewayUrl(
   hash: string,
-  gateway: string = 'https://gateway.pinata.cloud/ipfs/'
+  gateway: string = `${getRankedGateways()[0]}/ipfs/`
 ): string {
   return `${gateway}${hash}`
 }
@@ -0,0 +1,141 @@
+/**
+ * eth_getLogs 분할 조회 유틸리티
+ * 공개 RPC는 한 번에 조회할 수 있는 블록 범위나 결과 수를 제한하므로
+ * 범위를 나누어 조회하고, 제한 오류가 나면 범위를 줄이고 성공하면 다시 늘립니다.
+ * 429(요청 과다) 응답은 지수 백오프로 재시도합니다.
+ */
+
+import { ethers } from 'ethers'
+
+export interface FetchLogsOptions {
+  initialChunkSize?: number
+  minChunkSize?: number
+  maxChunkSize?: number
+  maxRetries?: number
+  baseDelayMs?: number
+  onProgress?: (toBlock: number) => void
+}
+
+const DEFAULT_OPTIONS: Required<Omit<FetchLogsOptions, 'onProgress'>> = {
+  initialChunkSize: 2_000,
+  minChunkSize: 1,
+  maxChunkSize: 50_000,
+  maxRetries: 5,
+  baseDelayMs: 500,
+}
+
+const RANGE_ERROR_PATTERNS = [
+  /range (is )?too (large|wide|big)/i,
+  /block range/i,
+  /too many (results|logs)/i,
+  /more than \d+ results/i,
+  /response size/i,
+  /limit exceeded/i,
+  /query timeout/i,
+]
+
+const RATE_LIMIT_PATTERNS = [/429/, /too many requests/i, /rate limit/i, /exceeded .*capacity/i]
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * ethers가 감싼 RPC 오류에서 원본 메시지들을 모아 하나의 문자열로 만듭니다.
+ */
+const collectErrorText = (error: unknown): string => {
+  if (!error || typeof error !== 'object') return String(error ?? '')
+
+  const parts: string[] = []
+  const record = error as Record<string, unknown>
+  for (const key of ['message', 'shortMessage', 'code', 'status']) {
+    if (record[key] !== undefined) parts.push(String(record[key]))
+  }
+  for (const key of ['error', 'info', 'response']) {
+    if (record[key] && typeof record[key] === 'object') {
+      parts.push(collectErrorText(record[key]))
+    }
+  }
+  return parts.join(' ')
+}
+
+const isRangeError = (text: string) => RANGE_ERROR_PATTERNS.some((pattern) => pattern.test(text))
+
+const isRateLimitError = (text: string) =>
+  RATE_LIMIT_PATTERNS.some((pattern) => pattern.test(text))
+
+/**
+ * 일부 RPC(Alchemy 등)는 오류 메시지에 조회 가능한 범위를 알려줍니다.
+ * 예: "this block range should work: [0x10, 0x20]"
+ */
+const parseSuggestedRange = (text: string): number | null => {
+  const match = text.match(/\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i)
+  if (!match) return null
+  const size = Number(BigInt(match[2]) - BigInt(match[1])) + 1
+  return size > 0 ? size : null
+}
+
+/**
+ * 블록 범위를 나누어 로그를 조회합니다.
+ * @param provider 로그를 조회할 프로바이더
+ * @param filter address / topics 필터 (블록 범위 제외)
+ * @param fromBlock 시작 블록 (포함)
+ * @param toBlock 끝 블록 (포함)
+ * @param options 분할 크기, 재시도 횟수 등
+ * @returns 블록 순서대로 정렬된 로그
+ */
+export async function fetchLogs(
+  provider: ethers.Provider,
+  filter: Omit<ethers.Filter, 'fromBlock' | 'toBlock'>,
+  fromBlock: number,
+  toBlock: number,
+  options: FetchLogsOptions = {}
+): Promise<ethers.Log[]> {
+  const { initialChunkSize, minChunkSize, maxChunkSize, maxRetries, baseDelayMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  }
+
+  const logs: ethers.Log[] = []
+  let chunkSize = Math.min(initialChunkSize, maxChunkSize)
+  // 범위 오류가 난 크기보다 커지지 않도록 상한을 기억합니다.
+  let ceiling = maxChunkSize
+  let cursor = fromBlock
+  let retries = 0
+
+  while (cursor <= toBlock) {
+    const end = Math.min(cursor + chunkSize - 1, toBlock)
+
+    try {
+      const chunk = await provider.getLogs({ ...filter, fromBlock: cursor, toBlock: end })
+      logs.push(...chunk)
+      options.onProgress?.(end)
+      cursor = end + 1
+      retries = 0
+      chunkSize = Math.min(ceiling, chunkSize * 2)
+    } catch (error) {
+      const text = collectErrorText(error)
+
+      if (isRateLimitError(text)) {
+        if (retries >= maxRetries) throw error
+        const delay = baseDelayMs * 2 ** retries + Math.random() * baseDelayMs
+        retries += 1
+        console.warn(`RPC 요청 제한, ${Math.round(delay)}ms 후 재시도 (${retries}/${maxRetries})`)
+        await sleep(delay)
+        continue
+      }
+
+      if (isRangeError(text) && chunkSize > minChunkSize && end > cursor) {
+        const suggested = parseSuggestedRange(text)
+        ceiling = Math.max(minChunkSize, end - cursor)
+        chunkSize = Math.max(
+          minChunkSize,
+          suggested && suggested < chunkSize ? suggested : Math.floor((end - cursor + 1) / 2)
+        )
+        continue
+      }
+
+      throw error
+    }
+  }
+
+  return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+}
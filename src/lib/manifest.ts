@@ -0,0 +1,254 @@
+/**
+ * 일괄 민팅 매니페스트 파싱 및 검증
+ * 이미지 폴더와 함께 사용하는 CSV/JSON 매니페스트를 읽어 민팅할 항목 목록으로 만듭니다.
+ *
+ * CSV: 첫 줄은 헤더이며 file, name 열은 필수입니다.
+ *   file,name,description,recipient,trait:Background,trait:Level:number
+ *   1.png,Piece #1,첫 번째 작품,0x...,Red,3
+ * - trait:<이름> 열은 텍스트 속성, trait:<이름>:<display_type> 열은 숫자형 속성이 됩니다.
+ * - attributes 열에 JSON 배열을 넣을 수도 있습니다.
+ * JSON: [{ "file": "1.png", "name": "...", "attributes": [...] }] 또는 { "items": [...] }
+ */
+
+import { ethers } from 'ethers'
+import { MetadataAttribute, formatMetadataErrors, isDisplayType, validateMetadata } from './metadata'
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_SIZE, formatBytes } from './uploadLimits'
+
+export const MAX_BATCH_SIZE = 500
+
+export interface ManifestEntry {
+  // 매니페스트의 행 번호 (CSV는 헤더 다음 줄이 1, 오류 안내용)
+  row: number
+  file: string
+  name: string
+  description?: string
+  recipient?: string
+  attributes: MetadataAttribute[]
+}
+
+export interface ManifestError {
+  row: number
+  message: string
+}
+
+export class ManifestParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ManifestParseError'
+  }
+}
+
+/**
+ * RFC 4180 형식 CSV를 행 배열로 읽습니다. (따옴표 안의 쉼표·줄바꿈, "" 이스케이프 지원)
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new ManifestParseError('CSV의 따옴표가 닫히지 않았습니다.')
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  // 빈 줄은 무시합니다.
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const parseTraitColumn = (header: string) => {
+  const [, traitType, displayType] = header.split(':').map((part) => part.trim())
+  return { traitType, displayType }
+}
+
+const parseCSVManifest = (text: string): ManifestEntry[] => {
+  const [header, ...rows] = parseCSV(text)
+  if (!header) {
+    throw new ManifestParseError('CSV가 비어 있습니다.')
+  }
+
+  const columns = header.map((name) => name.trim())
+  const columnIndex = (name: string) => columns.findIndex((column) => column.toLowerCase() === name)
+  if (columnIndex('file') === -1 || columnIndex('name') === -1) {
+    throw new ManifestParseError('CSV 헤더에 file, name 열이 필요합니다.')
+  }
+
+  return rows.map((cells, i) => {
+    const cell = (name: string) => cells[columnIndex(name)]?.trim() || undefined
+    const attributes: MetadataAttribute[] = []
+
+    const json = cell('attributes')
+    if (json) {
+      try {
+        attributes.push(...(JSON.parse(json) as MetadataAttribute[]))
+      } catch {
+        throw new ManifestParseError(`${i + 1}행: attributes 열의 JSON 형식이 올바르지 않습니다.`)
+      }
+    }
+
+    columns.forEach((column, j) => {
+      const value = cells[j]?.trim()
+      if (!column.toLowerCase().startsWith('trait:') || !value) return
+      const { traitType, displayType } = parseTraitColumn(column)
+      if (displayType && isDisplayType(displayType)) {
+        attributes.push({ trait_type: traitType, value: Number(value), display_type: displayType })
+      } else {
+        attributes.push({ trait_type: traitType, value })
+      }
+    })
+
+    return {
+      row: i + 1,
+      file: cell('file') ?? '',
+      name: cell('name') ?? '',
+      description: cell('description'),
+      recipient: cell('recipient'),
+      attributes,
+    }
+  })
+}
+
+const parseJSONManifest = (text: string): ManifestEntry[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ManifestParseError('JSON 형식이 올바르지 않습니다.')
+  }
+
+  const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items
+  if (!Array.isArray(items)) {
+    throw new ManifestParseError('JSON 매니페스트는 배열이거나 items 배열을 가져야 합니다.')
+  }
+
+  return items.map((item, i) => {
+    const entry = (item ?? {}) as Record<string, unknown>
+    const text = (key: string) => {
+      const value = entry[key]
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined
+    }
+    return {
+      row: i + 1,
+      file: text('file') ?? text('image') ?? '',
+      name: text('name') ?? '',
+      description: text('description'),
+      recipient: text('recipient'),
+      attributes: Array.isArray(entry.attributes) ? (entry.attributes as MetadataAttribute[]) : [],
+    }
+  })
+}
+
+/**
+ * 파일 이름(.csv / .json)에 따라 매니페스트를 읽습니다.
+ */
+export const parseManifest = (fileName: string, text: string): ManifestEntry[] => {
+  const entries = fileName.toLowerCase().endsWith('.json')
+    ? parseJSONManifest(text)
+    : parseCSVManifest(text)
+
+  if (entries.length === 0) {
+    throw new ManifestParseError('매니페스트에 항목이 없습니다.')
+  }
+  if (entries.length > MAX_BATCH_SIZE) {
+    throw new ManifestParseError(`한 번에 최대 ${MAX_BATCH_SIZE}개까지 민팅할 수 있습니다.`)
+  }
+  return entries
+}
+
+// 폴더 선택 시 파일 이름은 webkitRelativePath의 마지막 부분과 같습니다.
+const toFileKey = (path: string) => path.replace(/^\.\//, '').split('/').pop() ?? path
+
+export const indexFiles = (files: File[]) =>
+  new Map(files.map((file) => [toFileKey(file.name), file]))
+
+/**
+ * 매니페스트의 file 값으로 이미지 파일을 찾습니다. ('./1.png', 'images/1.png' 모두 1.png로 찾음)
+ */
+export const getManifestFile = (files: Map<string, File>, name: string) =>
+  files.get(toFileKey(name))
+
+/**
+ * 민팅 전에 모든 항목을 검사합니다.
+ * 이미지 파일 존재·형식·크기, 받는 주소, 메타데이터 형식, 속성 중복을 확인합니다.
+ * @param entries 매니페스트 항목
+ * @param files 파일 이름 → 이미지 파일
+ * @returns 항목별 오류 (없으면 빈 배열)
+ */
+export const validateManifest = (entries: ManifestEntry[], files: Map<string, File>) => {
+  const errors: ManifestError[] = []
+
+  for (const entry of entries) {
+    const fail = (message: string) => errors.push({ row: entry.row, message })
+
+    const file = getManifestFile(files, entry.file)
+    if (!entry.file) {
+      fail('이미지 파일 이름(file)이 없습니다.')
+    } else if (!file) {
+      fail(`폴더에 '${entry.file}' 파일이 없습니다.`)
+    } else if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      fail(`'${entry.file}'은(는) 지원하지 않는 이미지 형식입니다.`)
+    } else if (file.size > MAX_IMAGE_SIZE) {
+      fail(`'${entry.file}'의 크기가 ${formatBytes(MAX_IMAGE_SIZE)}를 넘습니다.`)
+    }
+
+    if (entry.recipient && !ethers.isAddress(entry.recipient)) {
+      fail(`받는 주소가 올바르지 않습니다: ${entry.recipient}`)
+    }
+
+    const traitTypes = entry.attributes
+      .map((attribute) =>
+        typeof attribute?.trait_type === 'string' ? attribute.trait_type.trim().toLowerCase() : ''
+      )
+      .filter(Boolean)
+    const duplicate = traitTypes.find((traitType, i) => traitTypes.indexOf(traitType) !== i)
+    if (duplicate) {
+      fail(`'${duplicate}' 속성이 중복되었습니다.`)
+    }
+
+    // 이미지 CID는 업로드 후에 정해지므로 자리표시자로 나머지 필드를 검사합니다.
+    const { errors: metadataErrors } = validateMetadata(
+      {
+        name: entry.name,
+        description: entry.description,
+        image: 'ipfs://pending',
+        attributes: entry.attributes,
+      },
+      'write'
+    )
+    if (metadataErrors.length > 0) {
+      fail(formatMetadataErrors(metadataErrors))
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,222 @@
+/**
+ * NFT 메타데이터 검증 및 정리
+ * ERC-721 메타데이터 JSON 스키마와 OpenSea 확장 필드(external_url, animation_url,
+ * background_color, attributes.display_type)를 런타임에 검사합니다.
+ * - 읽기(read): 잘못된 필드는 버리고 나머지만 사용합니다. (카드 표시용)
+ * - 쓰기(write): 오류가 하나라도 있으면 업로드하지 않습니다. (민팅 전 검사용)
+ */
+
+export const DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage', 'date'] as const
+
+export type DisplayType = (typeof DISPLAY_TYPES)[number]
+
+export interface MetadataAttribute {
+  trait_type?: string
+  value: string | number
+  display_type?: DisplayType
+  max_value?: number
+}
+
+export interface NFTMetadata {
+  name?: string
+  description?: string
+  image?: string
+  external_url?: string
+  animation_url?: string
+  background_color?: string
+  attributes?: MetadataAttribute[]
+}
+
+export interface MetadataFieldError {
+  // 예: name, attributes[2].value
+  field: string
+  message: string
+}
+
+export interface MetadataValidationResult {
+  valid: boolean
+  metadata: NFTMetadata
+  errors: MetadataFieldError[]
+}
+
+export type ValidationMode = 'read' | 'write'
+
+const MAX_NAME_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 5_000
+const MAX_URI_LENGTH = 2_048
+const MAX_ATTRIBUTES = 100
+const MAX_TRAIT_LENGTH = 200
+
+// 이미지·애니메이션에 허용하는 URI (javascript: 등은 차단)
+const MEDIA_URI_PATTERN = /^(https?:\/\/|ipfs:\/\/|ipns:\/\/|ar:\/\/|data:(image|video|audio)\/)/i
+const LINK_URI_PATTERN = /^https?:\/\//i
+const COLOR_PATTERN = /^[0-9a-f]{6}$/i
+
+// 제어 문자는 줄바꿈·탭을 제외하고 제거합니다.
+const CONTROL_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const cleanText = (value: string) => value.replace(CONTROL_CHARS, '').trim()
+
+export const isDisplayType = (value: unknown): value is DisplayType =>
+  DISPLAY_TYPES.includes(value as DisplayType)
+
+/**
+ * 메타데이터를 검증하고 안전하게 표시할 수 있는 형태로 정리합니다.
+ * @param input 가져온(또는 업로드할) JSON 값
+ * @param mode read: 잘못된 필드 제외 / write: 민팅 필수 항목(name, image)까지 검사
+ */
+export const validateMetadata = (
+  input: unknown,
+  mode: ValidationMode = 'read'
+): MetadataValidationResult => {
+  const errors: MetadataFieldError[] = []
+  const metadata: NFTMetadata = {}
+  const fail = (field: string, message: string) => errors.push({ field, message })
+
+  if (!isRecord(input)) {
+    fail('', '메타데이터는 JSON 객체여야 합니다.')
+    return { valid: false, metadata, errors }
+  }
+
+  const readText = (field: 'name' | 'description', maxLength: number) => {
+    const value = input[field]
+    if (value === undefined || value === null) return
+    if (typeof value !== 'string') {
+      fail(field, '문자열이어야 합니다.')
+      return
+    }
+    const text = cleanText(value)
+    if (text.length > maxLength) {
+      fail(field, `${maxLength}자 이하여야 합니다.`)
+      if (mode === 'write') return
+    }
+    metadata[field] = text.slice(0, maxLength)
+  }
+
+  const readUri = (field: 'image' | 'animation_url' | 'external_url', pattern: RegExp) => {
+    const value = input[field]
+    if (value === undefined || value === null || value === '') return
+    if (typeof value !== 'string') {
+      fail(field, '문자열이어야 합니다.')
+      return
+    }
+    const uri = value.trim()
+    // data: URI는 길이 제한을 두지 않습니다. (온체인 메타데이터)
+    if (!uri.startsWith('data:') && uri.length > MAX_URI_LENGTH) {
+      fail(field, `URI는 ${MAX_URI_LENGTH}자 이하여야 합니다.`)
+      return
+    }
+    if (!pattern.test(uri)) {
+      fail(field, '허용되지 않는 URI 형식입니다.')
+      return
+    }
+    metadata[field] = uri
+  }
+
+  readText('name', MAX_NAME_LENGTH)
+  readText('description', MAX_DESCRIPTION_LENGTH)
+  readUri('image', MEDIA_URI_PATTERN)
+  readUri('animation_url', MEDIA_URI_PATTERN)
+  readUri('external_url', LINK_URI_PATTERN)
+
+  const color = input.background_color
+  if (color !== undefined && color !== null && color !== '') {
+    // OpenSea 규격은 '#' 없는 6자리 16진수입니다.
+    const normalized = typeof color === 'string' ? color.trim().replace(/^#/, '') : ''
+    if (COLOR_PATTERN.test(normalized)) {
+      metadata.background_color = normalized.toLowerCase()
+    } else {
+      fail('background_color', "'#' 없는 6자리 16진수 색상이어야 합니다.")
+    }
+  }
+
+  const attributes = input.attributes
+  if (attributes !== undefined && attributes !== null) {
+    if (!Array.isArray(attributes)) {
+      fail('attributes', '배열이어야 합니다.')
+    } else {
+      if (attributes.length > MAX_ATTRIBUTES) {
+        fail('attributes', `속성은 ${MAX_ATTRIBUTES}개 이하여야 합니다.`)
+      }
+      metadata.attributes = attributes
+        .slice(0, MAX_ATTRIBUTES)
+        .map((attribute, i) => validateAttribute(attribute, `attributes[${i}]`, fail))
+        .filter((attribute): attribute is MetadataAttribute => attribute !== null)
+    }
+  }
+
+  if (mode === 'write') {
+    if (!metadata.name) fail('name', '이름은 필수입니다.')
+    if (!metadata.image) fail('image', '이미지는 필수입니다.')
+  }
+
+  return { valid: errors.length === 0, metadata, errors }
+}
+
+const validateAttribute = (
+  input: unknown,
+  field: string,
+  fail: (field: string, message: string) => void
+): MetadataAttribute | null => {
+  if (!isRecord(input)) {
+    fail(field, '속성은 객체여야 합니다.')
+    return null
+  }
+
+  const attribute: Partial<MetadataAttribute> = {}
+
+  if (input.trait_type !== undefined) {
+    if (typeof input.trait_type !== 'string') {
+      fail(`${field}.trait_type`, '문자열이어야 합니다.')
+      return null
+    }
+    attribute.trait_type = cleanText(input.trait_type).slice(0, MAX_TRAIT_LENGTH)
+  }
+
+  if (input.display_type !== undefined && input.display_type !== null) {
+    if (!isDisplayType(input.display_type)) {
+      fail(`${field}.display_type`, `${DISPLAY_TYPES.join(', ')} 중 하나여야 합니다.`)
+      return null
+    }
+    attribute.display_type = input.display_type
+  }
+
+  const value = input.value
+  if (attribute.display_type) {
+    // 숫자형 표시 방식은 숫자 값만 허용합니다. (date는 Unix 타임스탬프 초)
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      fail(`${field}.value`, `display_type ${attribute.display_type}에는 숫자 값이 필요합니다.`)
+      return null
+    }
+    attribute.value = number
+  } else if (typeof value === 'string') {
+    attribute.value = cleanText(value).slice(0, MAX_TRAIT_LENGTH)
+  } else if (typeof value === 'number' && Number.isFinite(value)) {
+    attribute.value = value
+  } else if (typeof value === 'boolean') {
+    attribute.value = String(value)
+  } else {
+    fail(`${field}.value`, '문자열이나 숫자여야 합니다.')
+    return null
+  }
+
+  if (input.max_value !== undefined) {
+    if (typeof input.max_value !== 'number' || !Number.isFinite(input.max_value)) {
+      fail(`${field}.max_value`, '숫자여야 합니다.')
+    } else {
+      attribute.max_value = input.max_value
+    }
+  }
+
+  return attribute as MetadataAttribute
+}
+
+/**
+ * 검증 오류를 사용자에게 보여줄 문장으로 만듭니다.
+ */
+export const formatMetadataErrors = (errors: MetadataFieldError[]) =>
+  errors.map(({ field, message }) => (field ? `${field}: ${message}` : message)).join('\n')
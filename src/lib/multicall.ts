@@ -0,0 +1,139 @@
+/**
+ * Multicall3 배치 조회 유틸리티
+ * 여러 view 함수 호출을 aggregate3 한 번으로 묶어 RPC 왕복 횟수를 줄입니다.
+ * 개별 호출의 실패는 결과에 기록되며 나머지 호출에 영향을 주지 않습니다.
+ * Multicall3가 배포되지 않은 체인에서는 개별 eth_call로 대체합니다.
+ */
+
+import { ethers } from 'ethers'
+
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]
+
+// 한 번의 aggregate3에 담을 최대 호출 수 (tokenURI 응답 크기를 고려)
+const BATCH_SIZE = 100
+
+export interface ContractCall {
+  target: string
+  iface: ethers.Interface
+  method: string
+  args?: unknown[]
+}
+
+export type CallResult<T = unknown> =
+  | { success: true; value: T }
+  | { success: false; error: Error }
+
+const availability = new Map<number, Promise<boolean>>()
+
+const decodeResult = (call: ContractCall, data: string): unknown => {
+  const decoded = call.iface.decodeFunctionResult(call.method, data)
+  return decoded.length === 1 ? decoded[0] : decoded
+}
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error))
+
+/**
+ * 체인에 Multicall3가 배포되어 있는지 확인합니다. (체인별로 한 번만 조회)
+ */
+export async function isMulticallAvailable(provider: ethers.Provider): Promise<boolean> {
+  const { chainId } = await provider.getNetwork()
+  const key = Number(chainId)
+
+  let cached = availability.get(key)
+  if (!cached) {
+    cached = provider
+      .getCode(MULTICALL3_ADDRESS)
+      .then((code) => code !== '0x')
+      .catch(() => false)
+    availability.set(key, cached)
+  }
+  return cached
+}
+
+const callIndividually = async (
+  provider: ethers.Provider,
+  calls: ContractCall[]
+): Promise<CallResult[]> =>
+  Promise.all(
+    calls.map(async (call): Promise<CallResult> => {
+      try {
+        const data = await provider.call({
+          to: call.target,
+          data: call.iface.encodeFunctionData(call.method, call.args ?? []),
+        })
+        return { success: true, value: decodeResult(call, data) }
+      } catch (error) {
+        return { success: false, error: toError(error) }
+      }
+    })
+  )
+
+const callAggregated = async (
+  provider: ethers.Provider,
+  calls: ContractCall[]
+): Promise<CallResult[]> => {
+  const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider)
+  const encoded = calls.map((call) => ({
+    target: call.target,
+    allowFailure: true,
+    callData: call.iface.encodeFunctionData(call.method, call.args ?? []),
+  }))
+
+  const results: Array<{ success: boolean; returnData: string }> =
+    await multicall.aggregate3.staticCall(encoded)
+
+  return results.map((result, i): CallResult => {
+    if (!result.success) {
+      // 리버트 데이터는 ethers 오류 형식으로 변환해 호출자가 해석할 수 있게 합니다.
+      const error = ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: result.returnData,
+        reason: null,
+        transaction: { to: calls[i].target, data: encoded[i].callData },
+        invocation: null,
+        revert: null,
+      })
+      return { success: false, error }
+    }
+    try {
+      return { success: true, value: decodeResult(calls[i], result.returnData) }
+    } catch (error) {
+      return { success: false, error: toError(error) }
+    }
+  })
+}
+
+/**
+ * 여러 view 함수 호출을 묶어서 실행합니다.
+ * @param provider 호출에 사용할 프로바이더
+ * @param calls 호출 목록
+ * @returns 호출 순서와 같은 순서의 결과 (성공 여부 포함)
+ */
+export async function multicall(
+  provider: ethers.Provider,
+  calls: ContractCall[]
+): Promise<CallResult[]> {
+  if (calls.length === 0) return []
+
+  if (!(await isMulticallAvailable(provider))) {
+    return callIndividually(provider, calls)
+  }
+
+  const results: CallResult[] = []
+  for (let i = 0; i < calls.length; i += BATCH_SIZE) {
+    const batch = calls.slice(i, i + BATCH_SIZE)
+    try {
+      results.push(...(await callAggregated(provider, batch)))
+    } catch (error) {
+      // aggregate3 자체가 실패하면(가스 한도 등) 해당 묶음만 개별 호출로 대체합니다.
+      console.warn('Multicall3 호출 실패, 개별 호출로 대체합니다:', error)
+      results.push(...(await callIndividually(provider, batch)))
+    }
+  }
+  return results
+}
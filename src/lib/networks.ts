@@ -0,0 +1,161 @@
+/**
+ * 네트워크 레지스트리
+ * MyNFT 컨트랙트가 배포된 체인별 설정(체인 파라미터, RPC, 익스플로러, 컨트랙트 주소, 배포 블록)을 관리합니다.
+ * 주소·배포 블록·RPC는 .env.local의 NEXT_PUBLIC_* 값으로 덮어쓸 수 있습니다.
+ * 배포 블록을 모르는 컨트랙트는 resolveDeploymentBlock(contract.ts)이 체인에서 찾습니다.
+ */
+
+export type NetworkKey = 'sepolia' | 'holesky' | 'local' | 'mainnet'
+
+export interface NetworkConfig {
+  key: NetworkKey
+  chainId: number
+  chainName: string
+  nativeCurrency: {
+    name: string
+    symbol: string
+    decimals: number
+  }
+  rpcUrls: string[]
+  // 읽기 전용 FallbackProvider에서 응답이 일치해야 하는 RPC 수
+  rpcQuorum: number
+  blockExplorerUrls: string[]
+  contractAddress: string
+  // 로그 조회의 하한. null이면 체인에서 코드가 처음 나타난 블록을 찾아 씁니다.
+  deploymentBlock: number | null
+  testnet: boolean
+}
+
+// Next.js는 process.env.NEXT_PUBLIC_* 를 문자 그대로 참조해야 번들에 값을 넣어주므로
+// 동적 키 대신 네트워크마다 직접 읽습니다.
+const parseList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const parseBlock = (value: string | undefined, fallback: number | null = null) => {
+  if (!value) return fallback
+  const block = Number(value)
+  return Number.isInteger(block) && block >= 0 ? block : fallback
+}
+
+const ETHER = {
+  name: 'Ether',
+  symbol: 'ETH',
+  decimals: 18,
+}
+
+export const NETWORKS: NetworkConfig[] = [
+  {
+    key: 'sepolia',
+    chainId: 11155111,
+    chainName: 'Sepolia',
+    nativeCurrency: ETHER,
+    rpcUrls: [
+      ...parseList(process.env.NEXT_PUBLIC_SEPOLIA_RPC_URLS),
+      'https://ethereum-sepolia-rpc.publicnode.com',
+      'https://sepolia.drpc.org',
+      'https://rpc.sepolia.org',
+    ],
+    rpcQuorum: 2,
+    blockExplorerUrls: ['https://sepolia.etherscan.io/'],
+    contractAddress:
+      process.env.NEXT_PUBLIC_SEPOLIA_CONTRACT_ADDRESS ||
+      '0x141229BfA1c090AE58Ac9EE8C50A2E7f9a88195A',
+    deploymentBlock: parseBlock(process.env.NEXT_PUBLIC_SEPOLIA_DEPLOYMENT_BLOCK),
+    testnet: true,
+  },
+  {
+    key: 'holesky',
+    chainId: 17000,
+    chainName: 'Holesky',
+    nativeCurrency: ETHER,
+    rpcUrls: [
+      ...parseList(process.env.NEXT_PUBLIC_HOLESKY_RPC_URLS),
+      'https://ethereum-holesky-rpc.publicnode.com',
+      'https://holesky.drpc.org',
+    ],
+    rpcQuorum: 1,
+    blockExplorerUrls: ['https://holesky.etherscan.io/'],
+    contractAddress: process.env.NEXT_PUBLIC_HOLESKY_CONTRACT_ADDRESS || '',
+    deploymentBlock: parseBlock(process.env.NEXT_PUBLIC_HOLESKY_DEPLOYMENT_BLOCK),
+    testnet: true,
+  },
+  {
+    key: 'local',
+    chainId: 31337,
+    chainName: 'Localhost (Hardhat/Anvil)',
+    nativeCurrency: ETHER,
+    rpcUrls: [
+      ...parseList(process.env.NEXT_PUBLIC_LOCAL_RPC_URLS),
+      'http://127.0.0.1:8545',
+    ],
+    rpcQuorum: 1,
+    blockExplorerUrls: [],
+    // Hardhat/Anvil 기본 계정이 처음 배포한 컨트랙트 주소
+    contractAddress:
+      process.env.NEXT_PUBLIC_LOCAL_CONTRACT_ADDRESS ||
+      '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    // 로컬 체인은 짧으므로 처음부터 읽습니다.
+    deploymentBlock: parseBlock(process.env.NEXT_PUBLIC_LOCAL_DEPLOYMENT_BLOCK, 0),
+    testnet: true,
+  },
+  {
+    key: 'mainnet',
+    chainId: 1,
+    chainName: 'Ethereum Mainnet',
+    nativeCurrency: ETHER,
+    rpcUrls: [
+      ...parseList(process.env.NEXT_PUBLIC_MAINNET_RPC_URLS),
+      'https://ethereum-rpc.publicnode.com',
+      'https://eth.drpc.org',
+    ],
+    rpcQuorum: 2,
+    blockExplorerUrls: ['https://etherscan.io/'],
+    contractAddress: process.env.NEXT_PUBLIC_MAINNET_CONTRACT_ADDRESS || '',
+    deploymentBlock: parseBlock(process.env.NEXT_PUBLIC_MAINNET_DEPLOYMENT_BLOCK),
+    testnet: false,
+  },
+]
+
+export const DEFAULT_NETWORK = NETWORKS[0]
+
+/**
+ * 컨트랙트 주소가 설정된(사용 가능한) 네트워크인지 확인
+ */
+export const isNetworkDeployed = (network: NetworkConfig) => Boolean(network.contractAddress)
+
+export const getNetworkByKey = (key: string) =>
+  NETWORKS.find((network) => network.key === key)
+
+export const getNetworkByChainId = (chainId: number | bigint) =>
+  NETWORKS.find((network) => network.chainId === Number(chainId))
+
+export const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`
+
+/**
+ * wallet_addEthereumChain 요청 파라미터 생성 (EIP-3085)
+ */
+export const toAddEthereumChainParams = (network: NetworkConfig) => ({
+  chainId: toHexChainId(network.chainId),
+  chainName: network.chainName,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: network.rpcUrls,
+  ...(network.blockExplorerUrls.length > 0
+    ? { blockExplorerUrls: network.blockExplorerUrls }
+    : {}),
+})
+
+/**
+ * 블록 익스플로러 링크 생성 (익스플로러가 없는 네트워크는 null)
+ */
+export const getExplorerUrl = (
+  network: NetworkConfig,
+  type: 'address' | 'tx' | 'token',
+  value: string
+) => {
+  const base = network.blockExplorerUrls[0]
+  if (!base) return null
+  return `${base.replace(/\/$/, '')}/${type}/${value}`
+}
@@ -0,0 +1,70 @@
+/**
+ * 컨트랙트 소유권(Ownable) 조회
+ * owner()로 현재 소유자를 읽고, OwnershipTransferred 이벤트로 소유권 이전 기록을 만듭니다.
+ */
+
+import { ethers } from 'ethers'
+import { getContract, resolveDeploymentBlock } from './contract'
+import { fetchLogs } from './logs'
+import { NetworkConfig } from './networks'
+
+export interface OwnershipTransfer {
+  previousOwner: string
+  newOwner: string
+  blockNumber: number
+  transactionHash: string
+  // 블록 시간 (ms)
+  timestamp: number | null
+}
+
+/**
+ * 현재 소유자를 읽습니다. Ownable이 아니거나 조회에 실패하면 null을 반환합니다.
+ */
+export async function fetchContractOwner(
+  provider: ethers.Provider,
+  network: NetworkConfig
+): Promise<string | null> {
+  try {
+    return ethers.getAddress(await getContract(provider, network).owner())
+  } catch (error) {
+    console.error('owner() 조회 실패:', error)
+    return null
+  }
+}
+
+/**
+ * 배포 블록부터 OwnershipTransferred 이벤트를 모아 최신순으로 반환합니다.
+ */
+export async function fetchOwnershipHistory(
+  provider: ethers.Provider,
+  network: NetworkConfig
+): Promise<OwnershipTransfer[]> {
+  const contract = getContract(provider, network)
+  const event = contract.interface.getEvent('OwnershipTransferred')
+  if (!event) return []
+
+  const fromBlock = await resolveDeploymentBlock(provider, network)
+  const latest = await provider.getBlockNumber()
+  const logs = await fetchLogs(
+    provider,
+    { address: network.contractAddress, topics: [event.topicHash] },
+    fromBlock,
+    latest
+  )
+
+  // 이벤트 수가 적으므로 블록 시간은 각각 조회합니다.
+  const transfers = await Promise.all(
+    logs.map(async (log) => {
+      const { args } = contract.interface.parseLog(log) as ethers.LogDescription
+      const block = await provider.getBlock(log.blockNumber).catch(() => null)
+      return {
+        previousOwner: String(args.previousOwner),
+        newOwner: String(args.newOwner),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp: block ? block.timestamp * 1000 : null,
+      }
+    })
+  )
+  return transfers.reverse()
+}
@@ -0,0 +1,107 @@
+/**
+ * 서명 전 사전 점검
+ * 트랜잭션을 보내기 전에 eth_call로 실행을 시뮬레이션하고 가스를 추정해 예상 수수료를 보여준 뒤,
+ * 사용자가 고른 수수료 티어를 트랜잭션 옵션으로 돌려줍니다.
+ */
+
+import { SAFE_TRANSFER_FROM, getContract } from './contract'
+import { DecodedError, decodeError } from './errors'
+import { FeeOption, TxOverrides, fetchFiatRate, getFeeOptions } from './fees'
+import { NetworkConfig } from './networks'
+import { getReadProvider } from './web3'
+
+export type PreflightMethod =
+  | 'safeMint'
+  | 'approve'
+  | 'setApprovalForAll'
+  | typeof SAFE_TRANSFER_FROM
+
+export interface PreflightRequest {
+  network: NetworkConfig
+  method: PreflightMethod
+  args: unknown[]
+  // 트랜잭션을 보낼 주소
+  from: string
+  label: string
+  // 같은 형태의 트랜잭션을 여러 번 보낼 때 개수 (일괄 처리). 수수료를 이 개수만큼 곱해 보여줍니다.
+  count?: number
+}
+
+export interface PreflightResult {
+  // 시뮬레이션이 실패하면 null
+  gasLimit: bigint | null
+  options: FeeOption[]
+  // 실행이 되돌려질 것으로 예상되는 이유
+  revert: DecodedError | null
+  fiatRate: number | null
+}
+
+type ApprovalListener = (request: PreflightRequest | null) => void
+
+/**
+ * eth_call 시뮬레이션, 가스 추정, 수수료·시세 조회를 함께 실행합니다.
+ */
+export const runPreflight = async ({
+  network,
+  method,
+  args,
+  from,
+}: PreflightRequest): Promise<PreflightResult> => {
+  const provider = await getReadProvider(network)
+  const fn = getContract(provider, network).getFunction(method)
+
+  const simulate = async () => {
+    try {
+      await fn.staticCall(...args, { from })
+      return { gasLimit: await fn.estimateGas(...args, { from }), revert: null }
+    } catch (error) {
+      return { gasLimit: null, revert: decodeError(error) }
+    }
+  }
+
+  const [{ gasLimit, revert }, options, fiatRate] = await Promise.all([
+    simulate(),
+    getFeeOptions(provider),
+    fetchFiatRate(network.nativeCurrency.symbol),
+  ])
+  return { gasLimit, revert, options, fiatRate }
+}
+
+let pending: {
+  request: PreflightRequest
+  resolve: (overrides: TxOverrides | null) => void
+} | null = null
+const listeners = new Set<ApprovalListener>()
+
+const notify = () => {
+  listeners.forEach((listener) => listener(pending?.request ?? null))
+}
+
+/**
+ * 확인 창을 띄우고 사용자가 고른 수수료 옵션을 기다립니다. 취소하면 null을 반환합니다.
+ */
+export const requestTransactionApproval = (request: PreflightRequest) =>
+  new Promise<TxOverrides | null>((resolve) => {
+    // 이전 요청이 남아 있으면 취소로 처리합니다.
+    pending?.resolve(null)
+    pending = { request, resolve }
+    notify()
+  })
+
+export const resolveTransactionApproval = (overrides: TxOverrides | null) => {
+  const current = pending
+  pending = null
+  notify()
+  current?.resolve(overrides)
+}
+
+/**
+ * 확인 요청이 바뀌면 알림을 받습니다.
+ */
+export const subscribeTransactionApproval = (listener: ApprovalListener) => {
+  listeners.add(listener)
+  listener(pending?.request ?? null)
+  return () => {
+    listeners.delete(listener)
+  }
+}
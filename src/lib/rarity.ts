@@ -0,0 +1,164 @@
+/**
+ * 컬렉션 희귀도 계산
+ * 전체 토큰의 속성 빈도를 집계해 토큰별 희귀도 점수와 순위를 매깁니다.
+ * - 통계적 희귀도: 각 속성 값 빈도의 곱 (작을수록 희귀)
+ * - 희귀도 점수: 속성별 1/빈도의 합 + 속성 개수 점수(1/같은 속성 개수를 가진 토큰 비율)
+ * 숫자형 속성(display_type 지정)은 값이 연속적이라 빈도 집계에서 제외합니다.
+ */
+
+import { runWithConcurrency } from './concurrency'
+import { MetadataAttribute, validateMetadata } from './metadata'
+import { fetchMetadata } from './resolver'
+
+export interface TokenTraits {
+  tokenId: string
+  attributes: MetadataAttribute[]
+}
+
+export interface TraitRarity {
+  trait_type: string
+  // 속성이 없는 토큰은 null (없음도 하나의 값으로 집계)
+  value: string | null
+  count: number
+  frequency: number
+}
+
+export interface TokenRarity {
+  tokenId: string
+  traits: TraitRarity[]
+  traitCount: number
+  statisticalRarity: number
+  statisticalRank: number
+  traitCountScore: number
+  score: number
+  rank: number
+  // 상위 몇 %인지 (0~100, 작을수록 희귀)
+  percentile: number
+}
+
+export interface CollectionRarity {
+  // 집계에 사용된 토큰 수 (메타데이터를 읽지 못한 토큰 제외)
+  total: number
+  tokens: Map<string, TokenRarity>
+}
+
+const METADATA_CONCURRENCY = 6
+
+const isCategorical = (attribute: MetadataAttribute) =>
+  !attribute.display_type && !!attribute.trait_type
+
+const traitValueKey = (value: string | null) => (value === null ? '' : `=${value}`)
+
+/**
+ * 정렬 순서대로 순위를 매깁니다. 동점은 같은 순위를 받습니다. (1, 2, 2, 4 ...)
+ */
+const assignRanks = <T>(
+  items: T[],
+  compare: (a: T, b: T) => number,
+  setRank: (item: T, rank: number) => void
+) => {
+  const sorted = [...items].sort(compare)
+  let rank = 0
+  sorted.forEach((item, i) => {
+    if (i === 0 || compare(sorted[i - 1], item) !== 0) rank = i + 1
+    setRank(item, rank)
+  })
+}
+
+/**
+ * 토큰별 속성으로 컬렉션 희귀도를 계산합니다.
+ */
+export const computeRarity = (tokens: TokenTraits[]): CollectionRarity => {
+  const total = tokens.length
+  const result: CollectionRarity = { total, tokens: new Map() }
+  if (total === 0) return result
+
+  // trait_type → 값 → 토큰 수
+  const valueCounts = new Map<string, Map<string, number>>()
+  const traitCountCounts = new Map<number, number>()
+  const tokenTraits = tokens.map(({ tokenId, attributes }) => {
+    const traits = new Map<string, string>()
+    for (const attribute of attributes.filter(isCategorical)) {
+      // 같은 trait_type이 여러 번 나오면 첫 값만 사용합니다.
+      const traitType = attribute.trait_type as string
+      if (!traits.has(traitType)) traits.set(traitType, String(attribute.value))
+    }
+    for (const [traitType, value] of traits) {
+      const counts = valueCounts.get(traitType) ?? new Map<string, number>()
+      counts.set(traitValueKey(value), (counts.get(traitValueKey(value)) ?? 0) + 1)
+      valueCounts.set(traitType, counts)
+    }
+    traitCountCounts.set(traits.size, (traitCountCounts.get(traits.size) ?? 0) + 1)
+    return { tokenId, traits }
+  })
+
+  const rarities = tokenTraits.map(({ tokenId, traits }): TokenRarity => {
+    const traitRarities = [...valueCounts.entries()].map(([traitType, counts]) => {
+      const value = traits.get(traitType) ?? null
+      const count =
+        value === null
+          ? total - [...counts.values()].reduce((sum, n) => sum + n, 0)
+          : (counts.get(traitValueKey(value)) ?? 0)
+      return { trait_type: traitType, value, count, frequency: count / total }
+    })
+    const traitCountScore = total / (traitCountCounts.get(traits.size) ?? total)
+
+    return {
+      tokenId,
+      traits: traitRarities,
+      traitCount: traits.size,
+      statisticalRarity: traitRarities.reduce((product, { frequency }) => product * frequency, 1),
+      statisticalRank: 0,
+      traitCountScore,
+      score: traitRarities.reduce((sum, { frequency }) => sum + 1 / frequency, traitCountScore),
+      rank: 0,
+      percentile: 0,
+    }
+  })
+
+  assignRanks(
+    rarities,
+    (a, b) => b.score - a.score,
+    (item, rank) => (item.rank = rank)
+  )
+  assignRanks(
+    rarities,
+    (a, b) => a.statisticalRarity - b.statisticalRarity,
+    (item, rank) => (item.statisticalRank = rank)
+  )
+
+  for (const rarity of rarities) {
+    rarity.percentile = (rarity.rank / total) * 100
+    result.tokens.set(rarity.tokenId, rarity)
+  }
+  return result
+}
+
+/**
+ * 토큰들의 메타데이터를 가져와 속성만 모읍니다. 읽지 못한 토큰은 건너뜁니다.
+ * 메타데이터는 캐시되므로 카드에서 다시 요청해도 네트워크를 타지 않습니다.
+ */
+export async function fetchCollectionTraits(
+  nfts: Array<{ tokenId: string; tokenURI: string }>,
+  signal?: AbortSignal
+): Promise<TokenTraits[]> {
+  const results: TokenTraits[] = []
+
+  await runWithConcurrency(
+    nfts.filter(({ tokenURI }) => tokenURI),
+    METADATA_CONCURRENCY,
+    async ({ tokenId, tokenURI }) => {
+      try {
+        const { metadata } = validateMetadata(await fetchMetadata(tokenURI))
+        results.push({ tokenId, attributes: metadata.attributes ?? [] })
+      } catch (error) {
+        console.warn(`Token ${tokenId} 메타데이터를 읽지 못해 희귀도 계산에서 제외합니다:`, error)
+      }
+    },
+    signal
+  )
+  return results
+}
+
+export const formatPercentile = (percentile: number) =>
+  percentile < 1 ? `${percentile.toFixed(1)}%` : `${Math.ceil(percentile)}%`
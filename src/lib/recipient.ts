@@ -0,0 +1,97 @@
+/**
+ * 민팅 받는 주소 처리
+ * 0x 주소는 EIP-55 체크섬을 검사하고, ENS 이름은 이더리움 메인넷에서 주소로 변환합니다.
+ * (테스트넷 민팅이어도 ENS 이름은 메인넷 기준으로 해석합니다)
+ */
+
+import { ethers } from 'ethers'
+import { getNetworkByKey } from './networks'
+import { getReadOnlyProvider } from './web3'
+
+export interface ResolvedRecipient {
+  address: string
+  // ENS 이름으로 입력한 경우 원래 이름
+  ensName?: string
+}
+
+export class RecipientError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecipientError'
+  }
+}
+
+const HEX_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+const ENS_NAME_PATTERN = /^[^\s.]+(\.[^\s.]+)+$/
+
+const ensCache = new Map<string, Promise<string | null>>()
+
+export const isENSName = (value: string) =>
+  !value.startsWith('0x') && ENS_NAME_PATTERN.test(value.trim())
+
+/**
+ * 0x 주소를 검사해 체크섬 주소로 반환합니다.
+ * 대소문자가 섞인 주소는 체크섬이 맞아야 하며, 모두 소문자·대문자면 체크섬 없이 받습니다.
+ */
+export const parseAddress = (value: string) => {
+  const input = value.trim()
+  if (!HEX_ADDRESS_PATTERN.test(input)) {
+    throw new RecipientError(`올바른 주소 형식이 아닙니다: ${input}`)
+  }
+
+  let address: string
+  try {
+    address = ethers.getAddress(input)
+  } catch {
+    throw new RecipientError(`주소 체크섬이 올바르지 않습니다. 오타가 없는지 확인해주세요: ${input}`)
+  }
+  if (address === ethers.ZeroAddress) {
+    throw new RecipientError('0x0 주소로는 민팅할 수 없습니다.')
+  }
+  return address
+}
+
+const lookupENS = (name: string) => {
+  let pending = ensCache.get(name)
+  if (!pending) {
+    const mainnet = getNetworkByKey('mainnet')
+    if (!mainnet) throw new RecipientError('ENS를 조회할 메인넷 RPC가 설정되지 않았습니다.')
+    pending = getReadOnlyProvider(mainnet).resolveName(name)
+    // 조회 실패는 캐시하지 않습니다. (등록되지 않은 이름의 null 결과는 캐시)
+    pending.catch(() => ensCache.delete(name))
+    ensCache.set(name, pending)
+  }
+  return pending
+}
+
+/**
+ * 주소 또는 ENS 이름을 받는 주소로 변환합니다.
+ */
+export async function resolveRecipient(value: string): Promise<ResolvedRecipient> {
+  const input = value.trim()
+  if (!input) {
+    throw new RecipientError('받는 주소를 입력해주세요.')
+  }
+  if (!isENSName(input)) {
+    return { address: parseAddress(input) }
+  }
+
+  let ensName: string
+  try {
+    ensName = ethers.ensNormalize(input)
+  } catch {
+    throw new RecipientError(`올바르지 않은 ENS 이름입니다: ${input}`)
+  }
+
+  let resolved: string | null
+  try {
+    resolved = await lookupENS(ensName)
+  } catch (error) {
+    console.error('ENS 조회 오류:', error)
+    throw new RecipientError(`ENS 이름을 조회하지 못했습니다: ${ensName}`)
+  }
+  if (!resolved) {
+    throw new RecipientError(`주소가 연결되지 않은 ENS 이름입니다: ${ensName}`)
+  }
+  return { address: ethers.getAddress(resolved), ensName }
+}
@@ -0,0 +1,337 @@
+/**
+ * 콘텐츠 URI 리졸버
+ * tokenURI와 메타데이터 image에 쓰이는 여러 형식(ipfs://, ipfs://ipfs/, /ipfs/ 경로,
+ * 경로·서브도메인 게이트웨이 URL, ar://, data:)을 하나의 형태로 정규화하고,
+ * 여러 IPFS 게이트웨이에 순차적으로 요청을 걸어 먼저 응답한 결과를 사용합니다.
+ * 게이트웨이 목록은 NEXT_PUBLIC_IPFS_GATEWAYS(쉼표 구분)로 바꿀 수 있습니다.
+ */
+
+import { CID } from 'multiformats/cid'
+
+export type ContentLocation =
+  | { protocol: 'ipfs' | 'ipns' | 'ar'; root: string; path: string }
+  | { protocol: 'data' | 'http'; url: string }
+
+export interface ContentCandidate {
+  url: string
+  // IPFS 게이트웨이를 거치는 경우 해당 게이트웨이 (상태 기록용)
+  gateway?: string
+}
+
+export interface FetchContentOptions {
+  // 게이트웨이 하나당 응답 대기 시간
+  timeoutMs?: number
+  // 다음 게이트웨이에 추가로 요청을 보내기까지 기다리는 시간
+  staggerMs?: number
+  // 사용할 게이트웨이 목록 (기본값: IPFS_GATEWAYS)
+  gateways?: string[]
+  init?: RequestInit
+}
+
+const DEFAULT_GATEWAYS = [
+  'https://ipfs.io',
+  'https://dweb.link',
+  'https://gateway.pinata.cloud',
+  'https://w3s.link',
+]
+
+const ARWEAVE_GATEWAY = (process.env.NEXT_PUBLIC_ARWEAVE_GATEWAY || 'https://arweave.net').replace(
+  /\/$/,
+  ''
+)
+
+const DEFAULT_TIMEOUT_MS = 8_000
+const DEFAULT_STAGGER_MS = 500
+const METADATA_TTL_MS = 10 * 60 * 1000
+const MAX_CACHE_ENTRIES = 500
+
+// 실패한 게이트웨이는 잠시 뒤로 미루고, 연속 실패할수록 오래 미룹니다.
+const BASE_COOLDOWN_MS = 30_000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+
+/**
+ * 쉼표로 구분된 게이트웨이 목록을 파싱합니다. (끝의 /ipfs/ 경로는 제거)
+ */
+export const parseGatewayList = (value: string | undefined, fallback: string[]) => {
+  const configured = (value ?? '')
+    .split(',')
+    .map((gateway) => gateway.trim().replace(/\/(ipfs\/?)?$/, ''))
+    .filter(Boolean)
+  return configured.length > 0 ? configured : fallback
+}
+
+export const IPFS_GATEWAYS = parseGatewayList(process.env.NEXT_PUBLIC_IPFS_GATEWAYS, DEFAULT_GATEWAYS)
+
+const isCID = (value: string) => {
+  try {
+    CID.parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const splitRoot = (value: string) => {
+  const index = value.search(/[/?#]/)
+  return index < 0 ? [value, ''] : [value.slice(0, index), value.slice(index)]
+}
+
+/**
+ * URI를 프로토콜별 위치로 정규화합니다. 알 수 없는 형식이면 null을 반환합니다.
+ */
+export const parseContentURI = (uri: string): ContentLocation | null => {
+  const value = uri.trim()
+  if (!value) return null
+
+  if (value.startsWith('data:')) {
+    return { protocol: 'data', url: value }
+  }
+
+  const scheme = value.match(/^(ipfs|ipns|ar):\/\/(.*)$/i)
+  if (scheme) {
+    const protocol = scheme[1].toLowerCase() as 'ipfs' | 'ipns' | 'ar'
+    // ipfs://ipfs/<cid> 처럼 잘못 붙은 접두어 제거
+    const rest = protocol === 'ar' ? scheme[2] : scheme[2].replace(/^(ipfs|ipns)\//i, '')
+    const [root, path] = splitRoot(rest)
+    if (!root || (protocol === 'ipfs' && !isCID(root))) return null
+    return { protocol, root, path }
+  }
+
+  const contentPath = value.match(/^\/(ipfs|ipns)\/(.+)$/)
+  if (contentPath) {
+    const [root, path] = splitRoot(contentPath[2])
+    return { protocol: contentPath[1] as 'ipfs' | 'ipns', root, path }
+  }
+
+  if (isCID(splitRoot(value)[0])) {
+    const [root, path] = splitRoot(value)
+    return { protocol: 'ipfs', root, path }
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+
+  // 경로 게이트웨이: https://<gateway>/ipfs/<cid>/<path>
+  const gatewayPath = url.pathname.match(/^\/(ipfs|ipns)\/([^/]+)(.*)$/)
+  if (gatewayPath && (gatewayPath[1] === 'ipns' || isCID(gatewayPath[2]))) {
+    return {
+      protocol: gatewayPath[1] as 'ipfs' | 'ipns',
+      root: gatewayPath[2],
+      path: `${gatewayPath[3]}${url.search}`,
+    }
+  }
+
+  // 서브도메인 게이트웨이: https://<cid>.ipfs.<gateway>/<path>
+  const subdomain = url.hostname.match(/^([^.]+)\.(ipfs|ipns)\./)
+  if (subdomain && (subdomain[2] === 'ipns' || isCID(subdomain[1]))) {
+    const path = url.pathname === '/' ? '' : url.pathname
+    return {
+      protocol: subdomain[2] as 'ipfs' | 'ipns',
+      root: subdomain[1],
+      path: `${path}${url.search}`,
+    }
+  }
+
+  return { protocol: 'http', url: value }
+}
+
+/**
+ * 같은 콘텐츠를 가리키는 URI를 하나의 키로 만듭니다. (캐시 키로 사용)
+ */
+export const toCanonicalURI = (location: ContentLocation) =>
+  'url' in location ? location.url : `${location.protocol}://${location.root}${location.path}`
+
+interface GatewayHealth {
+  failures: number
+  retryAt: number
+  // 최근 응답 시간의 지수 이동 평균
+  latency: number | null
+}
+
+const health = new Map<string, GatewayHealth>()
+
+const getHealth = (gateway: string) => {
+  let entry = health.get(gateway)
+  if (!entry) {
+    entry = { failures: 0, retryAt: 0, latency: null }
+    health.set(gateway, entry)
+  }
+  return entry
+}
+
+/**
+ * 게이트웨이 요청 결과를 기록합니다. 이미지처럼 직접 fetch하지 않는 요청도 여기로 알려주세요.
+ */
+export const reportGatewayResult = (gateway: string, ok: boolean, latencyMs?: number) => {
+  const entry = getHealth(gateway)
+  if (ok) {
+    entry.failures = 0
+    entry.retryAt = 0
+    if (latencyMs !== undefined) {
+      entry.latency = entry.latency === null ? latencyMs : entry.latency * 0.7 + latencyMs * 0.3
+    }
+    return
+  }
+
+  entry.failures += 1
+  entry.retryAt =
+    Date.now() + Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (entry.failures - 1))
+}
+
+/**
+ * 사용 가능한 게이트웨이를 응답이 빠른 순서로 정렬합니다.
+ * 실패 후 대기 중인 게이트웨이는 마지막 수단으로 뒤에 둡니다.
+ */
+export const getRankedGateways = (gateways = IPFS_GATEWAYS) => {
+  const now = Date.now()
+  return gateways.map((gateway, order) => ({ gateway, order, ...getHealth(gateway) }))
+    .sort((a, b) => {
+      const aCooling = a.retryAt > now
+      const bCooling = b.retryAt > now
+      if (aCooling !== bCooling) return aCooling ? 1 : -1
+      if (aCooling) return a.retryAt - b.retryAt
+      // 응답 기록이 없는 게이트웨이는 설정 순서를 따릅니다.
+      if (a.latency === null || b.latency === null) {
+        return a.latency === b.latency ? a.order - b.order : a.latency === null ? 1 : -1
+      }
+      return a.latency - b.latency
+    })
+    .map(({ gateway }) => gateway)
+}
+
+/**
+ * URI를 요청할 수 있는 HTTP URL 후보를 우선순위 순서로 반환합니다.
+ */
+export const getContentCandidates = (
+  uri: string,
+  gateways = IPFS_GATEWAYS
+): ContentCandidate[] => {
+  const location = parseContentURI(uri)
+  if (!location) return uri ? [{ url: uri }] : []
+
+  if ('url' in location) return [{ url: location.url }]
+  if (location.protocol === 'ar') {
+    return [{ url: `${ARWEAVE_GATEWAY}/${location.root}${location.path}` }]
+  }
+
+  return getRankedGateways(gateways).map((gateway) => ({
+    url: `${gateway}/${location.protocol}/${location.root}${location.path}`,
+    gateway,
+  }))
+}
+
+/**
+ * 가장 우선순위가 높은 HTTP URL을 반환합니다. (<img src> 등 단일 URL이 필요한 곳에 사용)
+ */
+export const resolveContentUrl = (uri: string) => getContentCandidates(uri)[0]?.url ?? null
+
+/**
+ * 여러 게이트웨이에 staggerMs 간격으로 요청을 보내 가장 먼저 성공한 응답을 반환합니다.
+ * 앞선 게이트웨이가 실패하면 기다리지 않고 다음 게이트웨이로 넘어가며, 나머지 요청은 취소합니다.
+ */
+export async function fetchContent(
+  uri: string,
+  {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    staggerMs = DEFAULT_STAGGER_MS,
+    gateways,
+    init,
+  }: FetchContentOptions = {}
+): Promise<Response> {
+  const candidates = getContentCandidates(uri, gateways)
+  if (candidates.length === 0) {
+    throw new Error('지원하지 않는 URI 형식입니다.')
+  }
+
+  return new Promise<Response>((resolve, reject) => {
+    const controllers: AbortController[] = []
+    const errors: string[] = []
+    let next = 0
+    let failed = 0
+    let settled = false
+
+    const launch = () => {
+      if (settled || next >= candidates.length) {
+        clearInterval(ticker)
+        return
+      }
+
+      const { url, gateway } = candidates[next++]
+      const controller = new AbortController()
+      controllers.push(controller)
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+      const startedAt = Date.now()
+
+      fetch(url, { ...init, signal: controller.signal })
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          if (settled) return
+
+          settled = true
+          clearInterval(ticker)
+          if (gateway) reportGatewayResult(gateway, true, Date.now() - startedAt)
+          controllers.forEach((other) => other !== controller && other.abort())
+          resolve(response)
+        })
+        .catch((error) => {
+          if (settled) return
+
+          if (gateway) reportGatewayResult(gateway, false)
+          errors.push(`${url}: ${(error as Error).message}`)
+          failed += 1
+          if (failed === candidates.length) {
+            clearInterval(ticker)
+            reject(new Error(`모든 게이트웨이에서 콘텐츠를 가져오지 못했습니다.\n${errors.join('\n')}`))
+          } else {
+            launch()
+          }
+        })
+        .finally(() => clearTimeout(timer))
+    }
+
+    const ticker = setInterval(launch, staggerMs)
+    launch()
+  })
+}
+
+const metadataCache = new Map<string, { value: unknown; expiresAt: number }>()
+const pendingMetadata = new Map<string, Promise<unknown>>()
+
+/**
+ * JSON 메타데이터를 가져옵니다. 같은 URI는 TTL 동안 캐시하고, 동시에 들어온 요청은 하나로 합칩니다.
+ */
+export async function fetchMetadata<T = unknown>(
+  uri: string,
+  { ttlMs = METADATA_TTL_MS, ...options }: FetchContentOptions & { ttlMs?: number } = {}
+): Promise<T> {
+  const location = parseContentURI(uri)
+  const key = location ? toCanonicalURI(location) : uri
+
+  const cached = metadataCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as T
+  }
+
+  let pending = pendingMetadata.get(key)
+  if (!pending) {
+    pending = fetchContent(uri, options)
+      .then((response) => response.json())
+      .then((value) => {
+        // 가장 오래된 항목부터 제거 (Map은 삽입 순서를 유지)
+        metadataCache.delete(key)
+        if (metadataCache.size >= MAX_CACHE_ENTRIES) {
+          metadataCache.delete(metadataCache.keys().next().value as string)
+        }
+        metadataCache.set(key, { value, expiresAt: Date.now() + ttlMs })
+        return value
+      })
+      .finally(() => pendingMetadata.delete(key))
+    pendingMetadata.set(key, pending)
+  }
+  return pending as Promise<T>
+}
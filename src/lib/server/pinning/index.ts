@@ -0,0 +1,37 @@
+/**
+ * 피닝 서비스 선택 (서버 전용)
+ * PINNING_SERVICE 환경 변수로 백엔드를 고릅니다. (기본값: pinata)
+ *   pinata       PINATA_JWT
+ *   kubo         KUBO_API_URL, KUBO_API_AUTH (로컬 개발용)
+ *   web3storage  WEB3STORAGE_TOKEN, WEB3STORAGE_API_URL
+ *   psa          PINNING_SERVICE_ENDPOINT, PINNING_SERVICE_TOKEN (+ Kubo 설정)
+ */
+
+import { createKuboService } from './kubo'
+import { createPinataService } from './pinata'
+import { createPsaService } from './psa'
+import { PinningError, PinningService, PinningServiceType } from './types'
+import { createWeb3StorageService } from './web3storage'
+
+export * from './types'
+
+const FACTORIES: Record<PinningServiceType, () => PinningService> = {
+  pinata: createPinataService,
+  kubo: createKuboService,
+  web3storage: createWeb3StorageService,
+  psa: createPsaService,
+}
+
+let service: PinningService | null = null
+
+export const getPinningService = () => {
+  if (service) return service
+
+  const type = (process.env.PINNING_SERVICE || 'pinata') as PinningServiceType
+  const factory = FACTORIES[type]
+  if (!factory) {
+    throw new PinningError(`알 수 없는 PINNING_SERVICE입니다: ${type}`, 503)
+  }
+  service = factory()
+  return service
+}
@@ -0,0 +1,102 @@
+/**
+ * 로컬 Kubo(go-ipfs) 노드 피닝 서비스
+ * Kubo HTTP RPC(/api/v0/add)로 업로드하므로 인터넷 없이 개발할 수 있습니다.
+ * 기본 주소는 http://127.0.0.1:5001 이며 KUBO_API_URL로 바꿀 수 있습니다.
+ */
+
+import { PinningService, PinningError, throwResponseError, toJSONBlob } from './types'
+
+const DEFAULT_KUBO_API_URL = 'http://127.0.0.1:5001'
+
+interface KuboAddResponse {
+  Name: string
+  Hash: string
+  Size: string
+}
+
+export interface KuboServiceOptions {
+  apiUrl?: string
+  // 원격 Kubo 노드 인증 헤더 (예: "Basic dXNlcjpwYXNz")
+  authorization?: string
+}
+
+export interface KuboService extends PinningService {
+  // 노드가 외부에 알리는 multiaddr 목록
+  getAddresses(): Promise<string[]>
+  connect(multiaddr: string): Promise<void>
+}
+
+export const createKuboService = ({
+  apiUrl = process.env.KUBO_API_URL || DEFAULT_KUBO_API_URL,
+  authorization = process.env.KUBO_API_AUTH,
+}: KuboServiceOptions = {}): KuboService => {
+  const baseUrl = apiUrl.replace(/\/$/, '')
+
+  // Kubo RPC는 모든 명령을 POST로 받습니다.
+  const rpc = async (
+    command: string,
+    params: Record<string, string>,
+    body?: FormData,
+    allowError = false
+  ) => {
+    const query = new URLSearchParams(params)
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/api/v0/${command}?${query}`, {
+        method: 'POST',
+        headers: authorization ? { Authorization: authorization } : undefined,
+        body,
+      })
+    } catch (error) {
+      console.error('Kubo 연결 오류:', error)
+      throw new PinningError(`Kubo 노드(${baseUrl})에 연결할 수 없습니다.`, 503)
+    }
+    if (!response.ok && !allowError) {
+      await throwResponseError('Kubo', response)
+    }
+    return response
+  }
+
+  const add = async (file: Blob, name: string) => {
+    const formData = new FormData()
+    formData.append('file', file, name)
+
+    const response = await rpc(
+      'add',
+      { 'cid-version': '1', pin: 'true', 'raw-leaves': 'true' },
+      formData
+    )
+    const data: KuboAddResponse = await response.json()
+    return data.Hash
+  }
+
+  return {
+    type: 'kubo',
+
+    pinFile: add,
+
+    pinJSON(content, name) {
+      return add(toJSONBlob(content), `${name}.json`)
+    },
+
+    async isPinned(cid) {
+      // 고정되지 않은 CID는 "not pinned" 오류(500)로 응답합니다.
+      const response = await rpc('pin/ls', { arg: cid, type: 'recursive' }, undefined, true)
+      if (response.ok) return true
+
+      const text = await response.text()
+      if (/not pinned/i.test(text)) return false
+      throw new PinningError(`Kubo 고정 상태 확인 실패: ${text.slice(0, 200)}`)
+    },
+
+    async getAddresses() {
+      const response = await rpc('id', {})
+      const data: { Addresses: string[] | null } = await response.json()
+      return data.Addresses ?? []
+    },
+
+    async connect(multiaddr) {
+      await rpc('swarm/connect', { arg: multiaddr })
+    },
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Pinata 피닝 서비스
+ * JWT는 서버 환경 변수 PINATA_JWT에서만 읽으므로 브라우저 번들에 포함되지 않습니다.
+ */
+
+import { PinningService, requireEnv, throwResponseError } from './types'
+
+const PINATA_API_URL = 'https://api.pinata.cloud'
+
+interface PinataResponse {
+  IpfsHash: string
+  PinSize: number
+  Timestamp: string
+}
+
+interface PinListResponse {
+  count: number
+  rows: Array<{ ipfs_pin_hash: string }>
+}
+
+export const createPinataService = (jwt = process.env.PINATA_JWT): PinningService => {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${PINATA_API_URL}/${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${requireEnv('PINATA_JWT', jwt)}` },
+    })
+    if (!response.ok) {
+      await throwResponseError('Pinata', response)
+    }
+    return response
+  }
+
+  const pin = async (path: string, init: RequestInit) => {
+    const data: PinataResponse = await (await request(path, init)).json()
+    return data.IpfsHash
+  }
+
+  return {
+    type: 'pinata',
+
+    pinFile(file, name) {
+      const formData = new FormData()
+      formData.append('file', file, name)
+      formData.append('pinataMetadata', JSON.stringify({ name }))
+      formData.append('pinataOptions', JSON.stringify({ cidVersion: 1 }))
+
+      return pin('pinning/pinFileToIPFS', { method: 'POST', body: formData })
+    },
+
+    pinJSON(content, name) {
+      return pin('pinning/pinJSONToIPFS', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pinataContent: content,
+          pinataMetadata: { name },
+          pinataOptions: { cidVersion: 1 },
+        }),
+      })
+    },
+
+    async isPinned(cid) {
+      const query = new URLSearchParams({ hashContains: cid, status: 'pinned' })
+      const data: PinListResponse = await (await request(`data/pinList?${query}`)).json()
+      return data.rows.some((row) => row.ipfs_pin_hash === cid)
+    },
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * IPFS Pinning Services API 규격 서비스
+ * https://ipfs.github.io/pinning-services-api-spec/
+ * 이 규격은 이미 네트워크에 있는 CID를 고정하는 API이므로, 먼저 Kubo 노드에 콘텐츠를 추가한 뒤
+ * 원격 서비스에 고정을 요청하고 Kubo 노드를 origin으로 알려줍니다.
+ */
+
+import { KuboService, createKuboService } from './kubo'
+import { PinningError, PinningService, requireEnv, throwResponseError } from './types'
+
+interface PinStatus {
+  requestid: string
+  status: 'queued' | 'pinning' | 'pinned' | 'failed'
+  delegates: string[]
+}
+
+export interface PsaServiceOptions {
+  endpoint?: string
+  token?: string
+  kubo?: KuboService
+}
+
+export const createPsaService = ({
+  endpoint = process.env.PINNING_SERVICE_ENDPOINT,
+  token = process.env.PINNING_SERVICE_TOKEN,
+  kubo = createKuboService(),
+}: PsaServiceOptions = {}): PinningService => {
+  const getBaseUrl = () => requireEnv('PINNING_SERVICE_ENDPOINT', endpoint).replace(/\/$/, '')
+  const getAuthorization = () => `Bearer ${requireEnv('PINNING_SERVICE_TOKEN', token)}`
+
+  const requestPin = async (cid: string, name: string) => {
+    const origins = await kubo.getAddresses().catch((error) => {
+      console.warn('Kubo 주소 조회 실패, origin 없이 고정을 요청합니다:', error)
+      return []
+    })
+
+    const response = await fetch(`${getBaseUrl()}/pins`, {
+      method: 'POST',
+      headers: {
+        Authorization: getAuthorization(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ cid, name, origins }),
+    })
+    if (!response.ok) {
+      await throwResponseError('Pinning Service', response)
+    }
+
+    const status: PinStatus = await response.json()
+    if (status.status === 'failed') {
+      throw new PinningError('원격 피닝 서비스가 고정 요청을 거부했습니다.')
+    }
+
+    // 원격 서비스가 콘텐츠를 빨리 가져가도록 delegate 노드에 직접 연결합니다. (실패해도 무시)
+    await Promise.allSettled(status.delegates.map((delegate) => kubo.connect(delegate)))
+    return cid
+  }
+
+  return {
+    type: 'psa',
+
+    async pinFile(file, name) {
+      return requestPin(await kubo.pinFile(file, name), name)
+    },
+
+    async pinJSON(content, name) {
+      return requestPin(await kubo.pinJSON(content, name), name)
+    },
+
+    async isPinned(cid) {
+      const query = new URLSearchParams({ cid, status: 'pinned' })
+      const response = await fetch(`${getBaseUrl()}/pins?${query}`, {
+        headers: { Authorization: getAuthorization() },
+      })
+      if (!response.ok) {
+        await throwResponseError('Pinning Service', response)
+      }
+
+      const data: { count: number } = await response.json()
+      return data.count > 0
+    },
+  }
+}
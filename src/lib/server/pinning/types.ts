@@ -0,0 +1,59 @@
+/**
+ * IPFS 피닝 서비스 공통 인터페이스 (서버 전용)
+ * 업로드 API는 이 인터페이스만 사용하므로 설정만 바꿔 피닝 서비스를 교체할 수 있습니다.
+ */
+
+export type PinningServiceType = 'pinata' | 'kubo' | 'web3storage' | 'psa'
+
+export interface PinningService {
+  type: PinningServiceType
+  /**
+   * 파일을 업로드하고 고정(pin)한 뒤 CIDv1을 반환합니다.
+   */
+  pinFile(file: Blob, name: string): Promise<string>
+  /**
+   * JSON 데이터를 업로드하고 고정(pin)한 뒤 CIDv1을 반환합니다.
+   */
+  pinJSON(content: unknown, name: string): Promise<string>
+  /**
+   * CID가 이미 고정되어 있는지 확인합니다. (같은 파일을 다시 업로드하지 않기 위해 사용)
+   */
+  isPinned(cid: string): Promise<boolean>
+}
+
+export class PinningError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message)
+    this.name = 'PinningError'
+  }
+}
+
+/**
+ * 실패한 응답을 PinningError로 변환합니다.
+ */
+export const throwResponseError = async (service: string, response: Response): Promise<never> => {
+  const text = await response.text().catch(() => '')
+  let message = ''
+  try {
+    const data = JSON.parse(text)
+    message = data?.error?.message || data?.error?.reason || data?.error || data?.message || ''
+  } catch {
+    message = text.slice(0, 200)
+  }
+  console.error(`${service} API 오류:`, response.status, text)
+  throw new PinningError(
+    typeof message === 'string' && message
+      ? message
+      : `IPFS 업로드 실패 (${response.status}: ${response.statusText})`
+  )
+}
+
+export const requireEnv = (name: string, value: string | undefined) => {
+  if (!value) {
+    throw new PinningError(`서버에 ${name}가 설정되지 않았습니다.`, 503)
+  }
+  return value
+}
+
+export const toJSONBlob = (content: unknown) =>
+  new Blob([JSON.stringify(content)], { type: 'application/json' })
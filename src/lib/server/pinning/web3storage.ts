@@ -0,0 +1,56 @@
+/**
+ * web3.storage 방식 업로드 서비스
+ * 본문 그대로 POST /upload 하고 { cid }를 돌려받는 API(web3.storage, nft.storage 호환 서버)에 사용합니다.
+ */
+
+import { PinningService, requireEnv, throwResponseError, toJSONBlob } from './types'
+
+const DEFAULT_WEB3STORAGE_API_URL = 'https://api.web3.storage'
+
+export const createWeb3StorageService = (
+  token = process.env.WEB3STORAGE_TOKEN,
+  apiUrl = process.env.WEB3STORAGE_API_URL || DEFAULT_WEB3STORAGE_API_URL
+): PinningService => {
+  const baseUrl = apiUrl.replace(/\/$/, '')
+
+  const upload = async (file: Blob, name: string) => {
+    const response = await fetch(`${baseUrl}/upload`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${requireEnv('WEB3STORAGE_TOKEN', token)}`,
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-Name': encodeURIComponent(name),
+      },
+      body: file,
+    })
+    if (!response.ok) {
+      await throwResponseError('web3.storage', response)
+    }
+
+    const data: { cid: string } = await response.json()
+    return data.cid
+  }
+
+  return {
+    type: 'web3storage',
+
+    pinFile: upload,
+
+    pinJSON(content, name) {
+      return upload(toJSONBlob(content), name)
+    },
+
+    async isPinned(cid) {
+      const response = await fetch(`${baseUrl}/status/${cid}`, {
+        headers: { Authorization: `Bearer ${requireEnv('WEB3STORAGE_TOKEN', token)}` },
+      })
+      if (response.status === 404) return false
+      if (!response.ok) {
+        await throwResponseError('web3.storage', response)
+      }
+
+      const data: { pins?: Array<{ status: string }> } = await response.json()
+      return (data.pins ?? []).some((pin) => pin.status === 'Pinned')
+    },
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * 주소별 업로드 할당량 (서버 전용)
+ * 하루 단위로 업로드 횟수와 용량을 제한합니다.
+ * 서버 프로세스 메모리에 기록하므로 인스턴스가 여러 개면 인스턴스마다 따로 계산됩니다.
+ */
+
+const WINDOW_MS = 24 * 60 * 60 * 1000
+
+const parseLimit = (value: string | undefined, fallback: number) => {
+  const limit = Number(value)
+  return Number.isFinite(limit) && limit > 0 ? limit : fallback
+}
+
+const MAX_UPLOADS = parseLimit(process.env.UPLOAD_QUOTA_COUNT, 50)
+const MAX_BYTES = parseLimit(process.env.UPLOAD_QUOTA_BYTES, 100 * 1024 * 1024)
+
+interface Usage {
+  windowStart: number
+  uploads: number
+  bytes: number
+}
+
+const usages = new Map<string, Usage>()
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+const getUsage = (address: string) => {
+  const key = address.toLowerCase()
+  const now = Date.now()
+  let usage = usages.get(key)
+  if (!usage || now - usage.windowStart >= WINDOW_MS) {
+    usage = { windowStart: now, uploads: 0, bytes: 0 }
+    usages.set(key, usage)
+  }
+  return usage
+}
+
+/**
+ * 업로드 전에 할당량을 예약합니다. 업로드가 실패하면 반환된 함수로 되돌립니다.
+ */
+export const reserveQuota = (address: string, bytes: number) => {
+  const usage = getUsage(address)
+
+  if (usage.uploads + 1 > MAX_UPLOADS) {
+    throw new QuotaExceededError(`하루 업로드 횟수(${MAX_UPLOADS}회)를 초과했습니다.`)
+  }
+  if (usage.bytes + bytes > MAX_BYTES) {
+    throw new QuotaExceededError(
+      `하루 업로드 용량(${Math.round(MAX_BYTES / 1024 / 1024)}MB)을 초과했습니다.`
+    )
+  }
+
+  usage.uploads += 1
+  usage.bytes += bytes
+
+  return () => {
+    usage.uploads = Math.max(0, usage.uploads - 1)
+    usage.bytes = Math.max(0, usage.bytes - bytes)
+  }
+}
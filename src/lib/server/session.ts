@@ -0,0 +1,116 @@
+/**
+ * SIWE 세션 쿠키 (서버 전용)
+ * 세션과 nonce는 HMAC으로 서명한 HTTP-only 쿠키에 담아 서버에 별도 저장소 없이 검증합니다.
+ * 운영 환경에서는 SESSION_SECRET을 반드시 설정해야 합니다.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { cookies } from 'next/headers'
+import type { SiweSession } from '../siwe'
+
+export const SESSION_COOKIE = 'siwe-session'
+export const NONCE_COOKIE = 'siwe-nonce'
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 24
+export const NONCE_TTL_SECONDS = 60 * 5
+
+interface NoncePayload {
+  nonce: string
+  expiresAt: string
+}
+
+let devSecret: string | null = null
+
+const getSecret = () => {
+  const secret = process.env.SESSION_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET 환경 변수가 설정되지 않았습니다.')
+  }
+  // 개발 환경에서는 서버 프로세스마다 임시 비밀 키를 사용합니다. (재시작하면 세션이 끊깁니다)
+  devSecret ??= randomBytes(32).toString('hex')
+  return devSecret
+}
+
+const sign = (value: string) => createHmac('sha256', getSecret()).update(value).digest('base64url')
+
+const encode = (payload: object) => {
+  const value = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${value}.${sign(value)}`
+}
+
+const decode = <T extends { expiresAt: string }>(token: string | undefined): T | null => {
+  if (!token) return null
+
+  const [value, signature] = token.split('.')
+  if (!value || !signature) return null
+
+  const expected = Buffer.from(sign(value))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(value, 'base64url').toString()) as T
+    return Date.parse(payload.expiresAt) > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge,
+})
+
+const expiresIn = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString()
+
+/**
+ * 새 nonce를 발급하고 서명된 쿠키에 저장합니다.
+ * SIWE 규격상 nonce는 8자 이상의 영숫자여야 합니다.
+ */
+export const issueNonce = async () => {
+  const nonce = randomBytes(16).toString('hex')
+  const store = await cookies()
+  store.set(
+    NONCE_COOKIE,
+    encode({ nonce, expiresAt: expiresIn(NONCE_TTL_SECONDS) }),
+    cookieOptions(NONCE_TTL_SECONDS)
+  )
+  return nonce
+}
+
+/**
+ * 쿠키에 저장된 nonce와 비교한 뒤 한 번 사용한 nonce는 폐기합니다.
+ */
+export const consumeNonce = async (nonce: string) => {
+  const store = await cookies()
+  const payload = decode<NoncePayload>(store.get(NONCE_COOKIE)?.value)
+  store.delete(NONCE_COOKIE)
+  return payload !== null && payload.nonce === nonce
+}
+
+export const createSession = async (address: string, chainId: number) => {
+  const session: SiweSession = { address, chainId, expiresAt: expiresIn(SESSION_TTL_SECONDS) }
+  const store = await cookies()
+  store.set(SESSION_COOKIE, encode(session), cookieOptions(SESSION_TTL_SECONDS))
+  return session
+}
+
+/**
+ * 요청 쿠키에서 유효한 세션을 읽습니다. 서버 기능은 이 주소만 신뢰해야 합니다.
+ */
+export const getSession = async () => {
+  const store = await cookies()
+  return decode<SiweSession>(store.get(SESSION_COOKIE)?.value)
+}
+
+export const destroySession = async () => {
+  const store = await cookies()
+  store.delete(SESSION_COOKIE)
+}
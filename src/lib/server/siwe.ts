@@ -0,0 +1,107 @@
+/**
+ * SIWE 메시지 검증 (서버 전용)
+ * 도메인, 체인, nonce, 유효 기간, 서명을 순서대로 확인합니다.
+ */
+
+import { ethers } from 'ethers'
+import { getNetworkByChainId, isNetworkDeployed } from '../networks'
+import { SiweMessage, parseSiweMessage } from '../siwe'
+import { consumeNonce } from './session'
+
+// 클라이언트와 서버의 시계 차이 허용 범위
+const CLOCK_SKEW_MS = 5 * 60 * 1000
+
+const EIP1271_ABI = [
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+]
+const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+
+export class SiweVerificationError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message)
+    this.name = 'SiweVerificationError'
+  }
+}
+
+/**
+ * 컨트랙트 지갑(Safe 등)은 ECDSA 서명 대신 EIP-1271로 서명을 확인합니다.
+ */
+const isValidContractSignature = async (
+  message: SiweMessage,
+  text: string,
+  signature: string
+) => {
+  const network = getNetworkByChainId(message.chainId)
+  if (!network?.rpcUrls[0]) return false
+
+  const staticNetwork = ethers.Network.from(network.chainId)
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0], staticNetwork, { staticNetwork })
+  try {
+    if ((await provider.getCode(message.address)) === '0x') return false
+    const wallet = new ethers.Contract(message.address, EIP1271_ABI, provider)
+    const result: string = await wallet.isValidSignature(ethers.hashMessage(text), signature)
+    return result.toLowerCase() === EIP1271_MAGIC_VALUE
+  } catch (error) {
+    console.error('EIP-1271 서명 확인 실패:', error)
+    return false
+  } finally {
+    provider.destroy()
+  }
+}
+
+/**
+ * 서명된 SIWE 메시지를 검증하고 파싱된 메시지를 반환합니다.
+ * @param text 지갑이 서명한 메시지 원문
+ * @param signature personal_sign 서명
+ * @param domain 이 서버의 호스트 (메시지의 domain과 일치해야 함)
+ */
+export const verifySiweMessage = async (text: string, signature: string, domain: string) => {
+  let message: SiweMessage
+  try {
+    message = parseSiweMessage(text)
+  } catch (error) {
+    throw new SiweVerificationError((error as Error).message, 400)
+  }
+
+  if (message.domain !== domain) {
+    throw new SiweVerificationError('다른 도메인에서 요청한 서명입니다.')
+  }
+
+  const network = getNetworkByChainId(message.chainId)
+  if (!network || !isNetworkDeployed(network)) {
+    throw new SiweVerificationError('지원하지 않는 체인입니다.')
+  }
+
+  // nonce는 서명 검증 결과와 관계없이 한 번만 사용할 수 있습니다.
+  if (!(await consumeNonce(message.nonce))) {
+    throw new SiweVerificationError('nonce가 만료되었거나 일치하지 않습니다. 다시 로그인해주세요.')
+  }
+
+  const now = Date.now()
+  const issuedAt = Date.parse(message.issuedAt)
+  if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS) {
+    throw new SiweVerificationError('메시지 발급 시각이 올바르지 않습니다.')
+  }
+  if (message.expirationTime && !(Date.parse(message.expirationTime) > now)) {
+    throw new SiweVerificationError('만료된 로그인 메시지입니다.')
+  }
+  if (message.notBefore && !(Date.parse(message.notBefore) <= now + CLOCK_SKEW_MS)) {
+    throw new SiweVerificationError('아직 사용할 수 없는 로그인 메시지입니다.')
+  }
+
+  let recovered = ''
+  try {
+    recovered = ethers.verifyMessage(text, signature)
+  } catch {
+    // 65바이트가 아닌 서명은 컨트랙트 지갑 서명일 수 있습니다.
+  }
+
+  if (
+    recovered.toLowerCase() !== message.address.toLowerCase() &&
+    !(await isValidContractSignature(message, text, signature))
+  ) {
+    throw new SiweVerificationError('서명이 주소와 일치하지 않습니다.')
+  }
+
+  return { ...message, address: ethers.getAddress(message.address) }
+}
@@ -0,0 +1,41 @@
+/**
+ * 업로드 API 공통 처리 (서버 전용)
+ */
+
+import { NextResponse } from 'next/server'
+import { PinningError } from './pinning'
+import { QuotaExceededError } from './quota'
+
+// 파일 시그니처로 실제 이미지 형식을 판별합니다. (클라이언트가 보낸 MIME은 신뢰하지 않음)
+const SIGNATURES: Array<{ type: string; offset: number; bytes: number[] }> = [
+  { type: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { type: 'image/avif', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66] },
+]
+
+export const detectImageType = (data: Uint8Array) =>
+  SIGNATURES.find(({ offset, bytes }) =>
+    bytes.every((byte, i) => data[offset + i] === byte)
+  )?.type ?? null
+
+/**
+ * 본문을 읽기 전에 Content-Length로 크기 초과 요청을 걸러냅니다.
+ */
+export const isBodyTooLarge = (request: Request, limit: number) =>
+  Number(request.headers.get('content-length') ?? 0) > limit
+
+export const errorResponse = (message: string, status: number) =>
+  NextResponse.json({ error: message }, { status })
+
+export const uploadErrorResponse = (error: unknown) => {
+  if (error instanceof QuotaExceededError) {
+    return errorResponse(error.message, 429)
+  }
+  if (error instanceof PinningError) {
+    return errorResponse(error.message, error.status)
+  }
+  console.error('Upload error:', error)
+  return errorResponse('IPFS 업로드에 실패했습니다.', 500)
+}
@@ -0,0 +1,124 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) 메시지 생성/파싱
+ * 클라이언트(메시지 생성)와 서버(검증 전 파싱)가 같은 형식을 사용하도록 공유합니다.
+ */
+
+import { ethers } from 'ethers'
+
+export interface SiweMessage {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: '1'
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+}
+
+export interface SiweSession {
+  address: string
+  chainId: number
+  expiresAt: string
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:'
+
+// 필드 순서는 EIP-4361 규격을 따릅니다.
+const FIELDS: Array<[keyof SiweMessage, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+]
+
+/**
+ * 지갑에 서명 요청할 EIP-4361 메시지 문자열을 만듭니다.
+ */
+export const createSiweMessage = (message: SiweMessage) => {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    ethers.getAddress(message.address),
+    '',
+  ]
+  // statement가 없어도 규격상 빈 줄 두 개로 주소와 URI를 구분합니다.
+  if (message.statement) lines.push(message.statement)
+  lines.push('')
+  for (const [key, label] of FIELDS) {
+    const value = message[key]
+    if (value !== undefined) lines.push(`${label}: ${value}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * EIP-4361 메시지 문자열을 파싱합니다. 형식이 맞지 않으면 오류를 던집니다.
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split('\n')
+
+  const header = lines[0] ?? ''
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new Error('SIWE 메시지 형식이 올바르지 않습니다.')
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length)
+
+  if (!ethers.isAddress(lines[1]) || lines[2] !== '') {
+    throw new Error('SIWE 메시지의 주소가 올바르지 않습니다.')
+  }
+  const address = lines[1]
+
+  // statement 자리(4번째 줄)가 비어 있으면 statement가 없는 메시지입니다.
+  let cursor = 4
+  let statement: string | undefined
+  if (lines[3] === undefined) {
+    throw new Error('SIWE 메시지 형식이 올바르지 않습니다.')
+  }
+  if (lines[3] !== '') {
+    statement = lines[3]
+    if (lines[4] !== '') {
+      throw new Error('SIWE 메시지 형식이 올바르지 않습니다.')
+    }
+    cursor = 5
+  }
+
+  const values = new Map<string, string>()
+  for (const line of lines.slice(cursor)) {
+    const separator = line.indexOf(': ')
+    if (separator < 0) {
+      throw new Error(`SIWE 메시지에 알 수 없는 줄이 있습니다: ${line}`)
+    }
+    values.set(line.slice(0, separator), line.slice(separator + 2))
+  }
+
+  const get = (label: string) => values.get(label)
+  const uri = get('URI')
+  const chainId = Number(get('Chain ID'))
+  const nonce = get('Nonce')
+  const issuedAt = get('Issued At')
+
+  if (get('Version') !== '1') {
+    throw new Error('지원하지 않는 SIWE 버전입니다.')
+  }
+  if (!uri || !nonce || !issuedAt || !Number.isInteger(chainId)) {
+    throw new Error('SIWE 메시지에 필수 항목이 없습니다.')
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: get('Expiration Time'),
+    notBefore: get('Not Before'),
+  }
+}
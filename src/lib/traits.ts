@@ -0,0 +1,218 @@
+/**
+ * NFT 속성(traits) 편집 유틸리티
+ * 민팅 폼의 입력 행을 메타데이터 attributes 배열로 변환하고,
+ * 카드에 표시할 때 display_type에 맞게 값을 꾸밉니다.
+ */
+
+import {
+  DisplayType,
+  MetadataAttribute,
+  formatMetadataErrors,
+  isDisplayType,
+  validateMetadata,
+} from './metadata'
+
+export interface TraitRow {
+  id: string
+  trait_type: string
+  // 입력 그대로의 문자열 (변환은 toMetadataAttributes에서 처리)
+  value: string
+  // '' 이면 일반 텍스트 속성
+  display_type: DisplayType | ''
+  max_value: string
+}
+
+export interface TraitPreset {
+  name: string
+  attributes: MetadataAttribute[]
+}
+
+export interface TraitRowError {
+  id: string
+  message: string
+}
+
+export const DISPLAY_TYPE_LABELS: Record<DisplayType | '', string> = {
+  '': '텍스트',
+  number: '숫자',
+  boost_number: '부스트 (숫자)',
+  boost_percentage: '부스트 (%)',
+  date: '날짜',
+}
+
+export const TRAIT_PRESETS: TraitPreset[] = [
+  {
+    name: '캐릭터',
+    attributes: [
+      { trait_type: 'Background', value: '' },
+      { trait_type: 'Body', value: '' },
+      { trait_type: 'Eyes', value: '' },
+      { trait_type: 'Level', value: 1, display_type: 'number', max_value: 100 },
+    ],
+  },
+  {
+    name: '게임 아이템',
+    attributes: [
+      { trait_type: 'Rarity', value: 'Common' },
+      { trait_type: 'Attack', value: 10, display_type: 'boost_number' },
+      { trait_type: 'Critical', value: 5, display_type: 'boost_percentage' },
+      { trait_type: 'Durability', value: 100, display_type: 'number', max_value: 100 },
+    ],
+  },
+  {
+    name: '아트워크',
+    attributes: [
+      { trait_type: 'Artist', value: '' },
+      { trait_type: 'Medium', value: '' },
+      { trait_type: 'Created', value: Math.floor(Date.now() / 1000), display_type: 'date' },
+    ],
+  },
+]
+
+let nextRowId = 0
+
+export const createTraitRow = (attribute?: Partial<MetadataAttribute>): TraitRow => {
+  const displayType = attribute?.display_type ?? ''
+  let value = attribute?.value === undefined ? '' : String(attribute.value)
+  // 날짜는 date 입력창 형식(YYYY-MM-DD)으로 보여줍니다.
+  if (displayType === 'date' && typeof attribute?.value === 'number') {
+    value = new Date(attribute.value * 1000).toISOString().slice(0, 10)
+  }
+  nextRowId += 1
+  return {
+    id: `trait-${nextRowId}`,
+    trait_type: attribute?.trait_type ?? '',
+    value,
+    display_type: displayType,
+    max_value: attribute?.max_value === undefined ? '' : String(attribute.max_value),
+  }
+}
+
+const isBlankRow = (row: TraitRow) => !row.trait_type.trim() && !row.value.trim()
+
+// 대소문자·공백만 다른 trait_type은 마켓플레이스에서 같은 속성으로 묶이므로 중복으로 봅니다.
+const traitKey = (traitType: string) => traitType.trim().toLowerCase()
+
+/**
+ * 같은 trait_type을 가진 행의 id 목록을 반환합니다.
+ */
+export const findDuplicateTraits = (rows: TraitRow[]) => {
+  const seen = new Map<string, string[]>()
+  for (const row of rows) {
+    const key = traitKey(row.trait_type)
+    if (!key) continue
+    seen.set(key, [...(seen.get(key) ?? []), row.id])
+  }
+  return new Set([...seen.values()].filter((ids) => ids.length > 1).flat())
+}
+
+/**
+ * display_type에 맞게 입력값을 변환합니다.
+ * 날짜는 YYYY-MM-DD 또는 Unix 타임스탬프(초)를 받아 타임스탬프로 바꿉니다.
+ */
+export const coerceTraitValue = (value: string, displayType: DisplayType | '') => {
+  const text = value.trim()
+  if (!displayType) return text
+
+  if (displayType === 'date' && !/^-?\d+$/.test(text)) {
+    const time = Date.parse(text)
+    if (Number.isNaN(time)) {
+      throw new Error('날짜 형식이 올바르지 않습니다.')
+    }
+    return Math.floor(time / 1000)
+  }
+
+  const number = Number(text)
+  if (!text || !Number.isFinite(number)) {
+    throw new Error('숫자를 입력해주세요.')
+  }
+  return number
+}
+
+/**
+ * 입력 행을 메타데이터 attributes로 변환합니다. 빈 행은 무시합니다.
+ * 오류가 있는 행은 errors에 담기며, 이 경우 attributes를 사용하면 안 됩니다.
+ */
+export const toMetadataAttributes = (rows: TraitRow[]) => {
+  const attributes: MetadataAttribute[] = []
+  const errors: TraitRowError[] = []
+  const duplicates = findDuplicateTraits(rows)
+
+  for (const row of rows) {
+    if (isBlankRow(row)) continue
+
+    if (duplicates.has(row.id)) {
+      errors.push({ id: row.id, message: `'${row.trait_type.trim()}' 속성이 중복되었습니다.` })
+      continue
+    }
+    if (!row.value.trim()) {
+      errors.push({ id: row.id, message: '값을 입력해주세요.' })
+      continue
+    }
+
+    try {
+      const attribute: MetadataAttribute = {
+        value: coerceTraitValue(row.value, row.display_type),
+      }
+      // trait_type 없이 값만 있으면 OpenSea에서 태그처럼 표시됩니다.
+      if (row.trait_type.trim()) attribute.trait_type = row.trait_type.trim()
+      if (row.display_type) attribute.display_type = row.display_type
+
+      if (row.max_value.trim() && row.display_type === 'number') {
+        const max = Number(row.max_value)
+        if (!Number.isFinite(max)) throw new Error('최댓값은 숫자여야 합니다.')
+        if (typeof attribute.value === 'number' && attribute.value > max) {
+          throw new Error('값이 최댓값보다 큽니다.')
+        }
+        attribute.max_value = max
+      }
+      attributes.push(attribute)
+    } catch (error) {
+      errors.push({ id: row.id, message: (error as Error).message })
+    }
+  }
+
+  return { attributes, errors }
+}
+
+/**
+ * 가져온 JSON에서 속성 프리셋을 읽습니다.
+ * attributes 배열, 메타데이터 JSON({ attributes: [...] }) 모두 받습니다.
+ */
+export const parseTraitPreset = (text: string): MetadataAttribute[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('JSON 형식이 올바르지 않습니다.')
+  }
+
+  const input = Array.isArray(data) ? { attributes: data } : data
+  const { metadata, errors } = validateMetadata(input)
+  const attributeErrors = errors.filter(({ field }) => field.startsWith('attributes'))
+  if (attributeErrors.length > 0) {
+    throw new Error(formatMetadataErrors(attributeErrors))
+  }
+  if (!metadata.attributes || metadata.attributes.length === 0) {
+    throw new Error('가져올 속성이 없습니다.')
+  }
+  return metadata.attributes
+}
+
+/**
+ * 카드에 표시할 속성 값 문자열을 만듭니다.
+ */
+export const formatTraitValue = ({ value, display_type, max_value }: MetadataAttribute) => {
+  if (!isDisplayType(display_type) || typeof value !== 'number') return String(value)
+
+  switch (display_type) {
+    case 'date':
+      return new Date(value * 1000).toLocaleDateString()
+    case 'boost_percentage':
+      return `${value > 0 ? '+' : ''}${value}%`
+    case 'boost_number':
+      return `${value > 0 ? '+' : ''}${value}`
+    default:
+      return max_value !== undefined ? `${value} / ${max_value}` : String(value)
+  }
+}
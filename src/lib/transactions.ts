@@ -0,0 +1,561 @@
+/**
+ * 트랜잭션 추적
+ * 보낸 트랜잭션을 계정·체인별로 localStorage에 기록하고 대기·확정·실패·교체 상태를 추적합니다.
+ * 새로고침한 뒤에도 대기 중이던 트랜잭션을 이어서 확인하며,
+ * 처리되지 않는 트랜잭션은 같은 nonce로 가스비를 올려 다시 보내거나(속도 올리기) 취소할 수 있습니다.
+ */
+
+import { ethers } from 'ethers'
+import { decodeError } from './errors'
+import { TxOverrides, getFeeOptions } from './fees'
+import { NetworkConfig } from './networks'
+import { getReadProvider, getSigner } from './web3'
+
+// 확정 후 어떤 데이터를 다시 읽을지 정하는 데 사용합니다.
+export type TxKind = 'mint' | 'transfer' | 'approve' | 'ownership' | 'cancel'
+
+// replaced: 다른 트랜잭션이 같은 nonce를 사용함 / cancelled: 지갑에서 취소됨
+export type TxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled'
+
+export type ReplacementAction = 'speedUp' | 'cancel'
+
+// 같은 nonce로 다시 보내기 위해 저장하는 트랜잭션 내용 (bigint는 문자열)
+export interface StoredTxRequest {
+  to: string | null
+  data: string
+  value: string
+  gasLimit: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  gasPrice?: string
+}
+
+export interface TrackedTransaction {
+  hash: string
+  chainId: number
+  // 보낸 주소 (소문자)
+  account: string
+  nonce: number
+  kind: TxKind
+  label: string
+  status: TxStatus
+  submittedAt: number
+  // 교체 여부를 확인하기 시작할 블록
+  startBlock?: number
+  request?: StoredTxRequest
+  // 속도 올리기·취소로 보낸 트랜잭션이나, 교체되어 실제로 처리된 트랜잭션 해시
+  replacedBy?: string
+  replacementAction?: ReplacementAction
+  error?: string
+  // 알림을 닫았는지 여부
+  dismissed?: boolean
+}
+
+export interface TrackOptions {
+  kind: TxKind
+  label: string
+}
+
+type Listener = (transactions: TrackedTransaction[]) => void
+type SettledListener = (transaction: TrackedTransaction) => void
+
+const STORAGE_KEY_PREFIX = 'transactions'
+// 계정·체인별로 보관할 최대 기록 수
+const MAX_STORED = 50
+// 노드는 같은 nonce를 교체할 때 수수료를 10% 이상 올려야 받아주므로 여유 있게 25% 올립니다.
+const FEE_BUMP_PERCENT = 125n
+const CANCEL_GAS_LIMIT = 21000n
+
+let records: TrackedTransaction[] = []
+const loadedScopes = new Set<string>()
+const watching = new Set<string>()
+const listeners = new Set<Listener>()
+const settledListeners = new Set<SettledListener>()
+
+const getStorageKey = (chainId: number, account: string) =>
+  `${STORAGE_KEY_PREFIX}:${chainId}:${account.toLowerCase()}`
+
+const saveScope = (chainId: number, account: string) => {
+  const scoped = records
+    .filter((record) => record.chainId === chainId && record.account === account)
+    .slice(0, MAX_STORED)
+  try {
+    localStorage.setItem(getStorageKey(chainId, account), JSON.stringify(scoped))
+  } catch (error) {
+    console.error('트랜잭션 기록 저장 실패:', error)
+  }
+}
+
+const loadScope = (chainId: number, account: string) => {
+  const key = getStorageKey(chainId, account)
+  if (loadedScopes.has(key)) return
+  loadedScopes.add(key)
+
+  try {
+    const saved = localStorage.getItem(key)
+    const stored = saved ? (JSON.parse(saved) as TrackedTransaction[]) : []
+    const known = new Set(records.map(({ hash }) => hash))
+    records = [...records, ...stored.filter(({ hash }) => !known.has(hash))].sort(
+      (a, b) => b.submittedAt - a.submittedAt
+    )
+  } catch (error) {
+    console.error('트랜잭션 기록 불러오기 실패:', error)
+  }
+}
+
+const notify = () => {
+  listeners.forEach((listener) => listener(records))
+}
+
+const updateRecord = (hash: string, changes: Partial<TrackedTransaction>) => {
+  const current = records.find((record) => record.hash === hash)
+  if (!current) return
+
+  const next = { ...current, ...changes }
+  records = records.map((record) => (record.hash === hash ? next : record))
+  saveScope(next.chainId, next.account)
+  notify()
+  if (current.status === 'pending' && next.status !== 'pending') {
+    settledListeners.forEach((listener) => listener(next))
+  }
+}
+
+export const getTransactions = () => records
+
+/**
+ * 기록이 바뀌면 알림을 받습니다.
+ */
+export const subscribeTransactions = (listener: Listener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * 추적 중인 트랜잭션이 대기 상태를 벗어나면(확정·실패·교체) 알림을 받습니다.
+ */
+export const onTransactionSettled = (listener: SettledListener) => {
+  settledListeners.add(listener)
+  return () => {
+    settledListeners.delete(listener)
+  }
+}
+
+/**
+ * 영수증을 기다립니다. 같은 내용으로 가스비만 올려 교체된(repriced) 경우 교체된 트랜잭션의 영수증을 반환합니다.
+ */
+export const waitForReceipt = async (tx: ethers.TransactionResponse) => {
+  try {
+    return await tx.wait()
+  } catch (error) {
+    const { code, reason, receipt } = error as {
+      code?: string
+      reason?: string
+      receipt?: ethers.TransactionReceipt
+    }
+    if (code === 'TRANSACTION_REPLACED' && reason === 'repriced' && receipt) {
+      if (receipt.status === 1) return receipt
+      // 교체된 트랜잭션이 revert된 경우도 원래 트랜잭션의 revert와 같게 처리합니다.
+      throw ethers.makeError('transaction execution reverted', 'CALL_EXCEPTION', {
+        action: 'sendTransaction',
+        data: null,
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: receipt.to, from: receipt.from, data: '' },
+        receipt,
+      })
+    }
+    throw error
+  }
+}
+
+/**
+ * waitForReceipt 오류가 체인에서 확정된 실패인지 확인합니다.
+ * 영수증이 있는 revert와 다른 내용으로 교체된 경우만 해당하며,
+ * RPC·폴링 오류는 트랜잭션이 아직 대기 중이거나 이미 처리되었을 수 있으므로 다시 보내면 안 됩니다.
+ */
+export const isSettledFailure = (error: unknown) => {
+  const { code, reason, receipt } = error as {
+    code?: string
+    reason?: string
+    receipt?: ethers.TransactionReceipt
+  }
+  if (code === 'CALL_EXCEPTION') return Boolean(receipt)
+  return code === 'TRANSACTION_REPLACED' && reason !== 'repriced'
+}
+
+/**
+ * 영수증을 기다려 상태를 갱신합니다.
+ * 같은 nonce의 다른 트랜잭션이 처리되면 ethers가 TRANSACTION_REPLACED를 던지며,
+ * 같은 내용으로 가스만 올린 경우(repriced)는 속도 올리기로 보고 확정으로 기록합니다.
+ */
+const watchTransaction = async (tx: ethers.TransactionResponse) => {
+  if (watching.has(tx.hash)) return
+  watching.add(tx.hash)
+
+  try {
+    const receipt = await tx.wait()
+    updateRecord(tx.hash, { status: receipt?.status === 1 ? 'confirmed' : 'failed' })
+  } catch (error) {
+    const { code, reason, replacement, receipt } = error as {
+      code?: string
+      reason?: 'repriced' | 'cancelled' | 'replaced'
+      replacement?: ethers.TransactionResponse
+      receipt?: ethers.TransactionReceipt
+    }
+    if (code === 'TRANSACTION_REPLACED') {
+      updateRecord(tx.hash, {
+        status:
+          reason === 'repriced'
+            ? receipt?.status === 1
+              ? 'confirmed'
+              : 'failed'
+            : reason === 'cancelled'
+            ? 'cancelled'
+            : 'replaced',
+        replacedBy: replacement?.hash,
+      })
+    } else {
+      console.error('트랜잭션 실패:', error)
+      updateRecord(tx.hash, { status: 'failed', error: decodeError(error).message })
+    }
+  } finally {
+    watching.delete(tx.hash)
+  }
+}
+
+const toStoredRequest = (tx: ethers.TransactionResponse): StoredTxRequest => ({
+  to: tx.to,
+  data: tx.data,
+  value: tx.value.toString(),
+  gasLimit: tx.gasLimit.toString(),
+  maxFeePerGas: tx.maxFeePerGas?.toString(),
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+  gasPrice: tx.maxFeePerGas === null ? tx.gasPrice.toString() : undefined,
+})
+
+/**
+ * 보낸 트랜잭션을 기록하고 처리될 때까지 추적합니다. 기다리지 않고 바로 반환합니다.
+ */
+export const trackTransaction = (
+  network: NetworkConfig,
+  tx: ethers.TransactionResponse,
+  { kind, label }: TrackOptions
+) => {
+  const account = tx.from.toLowerCase()
+  loadScope(network.chainId, account)
+
+  records = [
+    {
+      hash: tx.hash,
+      chainId: network.chainId,
+      account,
+      nonce: tx.nonce,
+      kind,
+      label,
+      status: 'pending' as const,
+      submittedAt: Date.now(),
+      request: toStoredRequest(tx),
+    },
+    ...records.filter((record) => record.hash !== tx.hash),
+  ]
+  saveScope(network.chainId, account)
+  notify()
+
+  tx.provider
+    .getBlockNumber()
+    .then((startBlock) => updateRecord(tx.hash, { startBlock }))
+    .catch((error) => console.error('블록 번호 조회 실패:', error))
+  watchTransaction(tx)
+}
+
+/**
+ * 저장된 기록을 불러오고, 새로고침 전에 대기 중이던 트랜잭션을 다시 추적합니다.
+ */
+export const resumeTransactions = async (network: NetworkConfig, account: string) => {
+  const owner = account.toLowerCase()
+  loadScope(network.chainId, owner)
+  notify()
+
+  const pending = records.filter(
+    (record) =>
+      record.chainId === network.chainId &&
+      record.account === owner &&
+      record.status === 'pending' &&
+      !watching.has(record.hash)
+  )
+  if (pending.length === 0) return
+
+  const provider = await getReadProvider(network)
+  const [latestBlock, confirmedNonce] = await Promise.all([
+    provider.getBlockNumber(),
+    provider.getTransactionCount(account, 'latest'),
+  ])
+
+  for (const record of pending) {
+    try {
+      const tx = await provider.getTransaction(record.hash)
+      if (tx) {
+        watchTransaction(tx.replaceableTransaction(record.startBlock ?? latestBlock))
+        continue
+      }
+
+      // 노드에 없는 트랜잭션: 같은 nonce가 이미 처리되었다면 다른 트랜잭션으로 교체된 것입니다.
+      const receipt = await provider.getTransactionReceipt(record.hash)
+      if (receipt) {
+        updateRecord(record.hash, { status: receipt.status === 1 ? 'confirmed' : 'failed' })
+        continue
+      }
+
+      if (record.replacedBy) {
+        const replacement = await provider.getTransaction(record.replacedBy)
+        if (replacement) {
+          watchReplacement(record.hash, replacement, record.replacementAction ?? 'speedUp')
+          continue
+        }
+      }
+      if (confirmedNonce > record.nonce) {
+        updateRecord(record.hash, { status: 'replaced' })
+      }
+    } catch (error) {
+      console.error(`트랜잭션 ${record.hash} 확인 실패:`, error)
+    }
+  }
+}
+
+/**
+ * 알림을 닫습니다. 기록은 남겨 둡니다.
+ */
+export const dismissTransaction = (hash: string) => {
+  const record = records.find((item) => item.hash === hash)
+  if (!record || record.dismissed) return
+
+  records = records.map((item) => (item.hash === hash ? { ...item, dismissed: true } : item))
+  saveScope(record.chainId, record.account)
+  notify()
+}
+
+/**
+ * 속도 올리기·취소로 보낸 트랜잭션을 기다려 원래 기록의 상태를 정합니다.
+ * 원래 트랜잭션을 추적 중이면 그쪽에서도 TRANSACTION_REPLACED로 같은 결과를 기록합니다.
+ */
+const watchReplacement = async (
+  originalHash: string,
+  replacement: ethers.TransactionResponse,
+  action: ReplacementAction
+) => {
+  try {
+    const receipt = await replacement.wait()
+    updateRecord(originalHash, {
+      status: action === 'cancel' ? 'cancelled' : receipt?.status === 1 ? 'confirmed' : 'failed',
+      replacedBy: replacement.hash,
+    })
+  } catch (error) {
+    // 원래 트랜잭션이 먼저 처리되면 교체 트랜잭션이 TRANSACTION_REPLACED로 끝납니다.
+    if ((error as { code?: string }).code !== 'TRANSACTION_REPLACED') {
+      console.error('교체 트랜잭션 실패:', error)
+    }
+  }
+}
+
+const bumpFee = (previous: string | undefined, current: bigint | undefined) => {
+  const bumped = previous ? (BigInt(previous) * FEE_BUMP_PERCENT) / 100n : 0n
+  const next = current ?? 0n
+  return bumped > next ? bumped : next
+}
+
+type StoredFees = Pick<StoredTxRequest, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>
+
+/**
+ * 교체 트랜잭션 수수료: 이전 값의 125%와 현재 '빠름' 티어 중 큰 값
+ * 이전 수수료를 모르면 '빠름' 티어를 이전 값으로 보고 그보다 125% 올립니다.
+ */
+const getReplacementFees = async (
+  provider: ethers.Provider,
+  known?: StoredFees
+): Promise<TxOverrides> => {
+  const fast = (await getFeeOptions(provider)).find(({ tier }) => tier === 'fast')
+  const previous: StoredFees | undefined = known ?? (fast && {
+    maxFeePerGas: fast.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: fast.maxPriorityFeePerGas?.toString(),
+    gasPrice: fast.gasPrice?.toString(),
+  })
+
+  if (fast?.gasPrice !== undefined || previous?.gasPrice !== undefined) {
+    return { gasPrice: bumpFee(previous?.gasPrice, fast?.gasPrice ?? fast?.maxFeePerGas) }
+  }
+
+  const maxPriorityFeePerGas = bumpFee(previous?.maxPriorityFeePerGas, fast?.maxPriorityFeePerGas)
+  const maxFeePerGas = bumpFee(previous?.maxFeePerGas, fast?.maxFeePerGas)
+  return {
+    maxPriorityFeePerGas,
+    maxFeePerGas: maxFeePerGas > maxPriorityFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+  }
+}
+
+/**
+ * 앱이 기록하지 않은 트랜잭션의 수수료를 대기(pending) 블록에서 찾습니다.
+ * 수수료가 낮아 대기 블록에 들어가지 못한 트랜잭션은 찾지 못할 수 있습니다.
+ */
+const findPendingFees = async (
+  provider: ethers.Provider,
+  account: string,
+  nonce: number
+): Promise<StoredFees | undefined> => {
+  try {
+    const block = await provider.getBlock('pending', true)
+    const tx = block?.prefetchedTransactions.find(
+      (item) => item.from.toLowerCase() === account.toLowerCase() && item.nonce === nonce
+    )
+    return tx ? toStoredRequest(tx) : undefined
+  } catch (error) {
+    console.warn('대기 블록 조회 실패:', error)
+    return undefined
+  }
+}
+
+/**
+ * 같은 nonce로 교체 트랜잭션을 보냅니다.
+ * 이전 수수료를 모르면 대기 블록에서 찾고, 그래도 없으면 '빠름' 티어보다 올려 보냅니다.
+ */
+const sendReplacement = async (
+  network: NetworkConfig,
+  account: string,
+  nonce: number,
+  request: Pick<StoredTxRequest, 'to' | 'data' | 'value' | 'gasLimit'>,
+  previous?: StoredTxRequest
+) => {
+  const signer = await getSigner(network)
+  if ((await signer.getAddress()).toLowerCase() !== account.toLowerCase()) {
+    throw new Error('트랜잭션을 보낸 계정으로 지갑을 연결해주세요.')
+  }
+
+  const fees = await getReplacementFees(
+    signer.provider,
+    previous ?? (await findPendingFees(signer.provider, account, nonce))
+  )
+  return signer.sendTransaction({
+    to: request.to,
+    data: request.data,
+    value: BigInt(request.value),
+    gasLimit: BigInt(request.gasLimit),
+    nonce,
+    ...fees,
+  })
+}
+
+/**
+ * 같은 내용·nonce로 수수료를 올려 다시 보냅니다.
+ */
+export const speedUpTransaction = async (network: NetworkConfig, hash: string) => {
+  const record = records.find((item) => item.hash === hash)
+  if (!record || record.status !== 'pending') throw new Error('대기 중인 트랜잭션이 아닙니다.')
+  if (!record.request) throw new Error('트랜잭션 내용이 저장되어 있지 않아 다시 보낼 수 없습니다.')
+
+  const replacement = await sendReplacement(
+    network,
+    record.account,
+    record.nonce,
+    record.request,
+    record.request
+  )
+  updateRecord(hash, {
+    replacedBy: replacement.hash,
+    replacementAction: 'speedUp',
+    request: toStoredRequest(replacement),
+  })
+  watchReplacement(hash, replacement, 'speedUp')
+}
+
+/**
+ * 같은 nonce로 자기 자신에게 0을 보내 대기 중인 트랜잭션을 취소합니다.
+ * 이 앱에서 보내지 않은 트랜잭션도 nonce만 알면 취소할 수 있습니다.
+ */
+export const cancelTransaction = async (network: NetworkConfig, account: string, nonce: number) => {
+  const record = records.find(
+    (item) =>
+      item.chainId === network.chainId &&
+      item.account === account.toLowerCase() &&
+      item.nonce === nonce &&
+      item.status === 'pending'
+  )
+
+  let replacement: ethers.TransactionResponse
+  try {
+    replacement = await sendReplacement(
+      network,
+      account,
+      nonce,
+      { to: account, data: '0x', value: '0', gasLimit: CANCEL_GAS_LIMIT.toString() },
+      record?.request
+    )
+  } catch (error) {
+    // 기록이 없으면 원래 수수료를 추정해 보낸 것이므로, 부족했다면 직접 올릴 수 있도록 안내합니다.
+    if (!record?.request && decodeError(error).code === 'REPLACEMENT_UNDERPRICED') {
+      throw new Error(
+        `nonce ${nonce} 트랜잭션의 수수료를 알 수 없어 추정한 값으로 취소를 보냈지만 부족했습니다.\n` +
+          '지갑에서 해당 트랜잭션을 더 높은 수수료로 직접 취소하거나 속도를 올려주세요.'
+      )
+    }
+    throw error
+  }
+
+  if (record) {
+    updateRecord(record.hash, {
+      replacedBy: replacement.hash,
+      replacementAction: 'cancel',
+      request: toStoredRequest(replacement),
+    })
+    watchReplacement(record.hash, replacement, 'cancel')
+  } else {
+    trackTransaction(network, replacement, { kind: 'cancel', label: `nonce ${nonce} 취소` })
+  }
+}
+
+/**
+ * 아직 처리되지 않은 nonce 목록 (확정된 nonce부터 대기 중인 nonce 직전까지)
+ */
+export const getOutstandingNonces = async (network: NetworkConfig, account: string) => {
+  const provider = await getReadProvider(network)
+  const [confirmed, pending] = await Promise.all([
+    provider.getTransactionCount(account, 'latest'),
+    provider.getTransactionCount(account, 'pending'),
+  ])
+
+  // 노드의 대기열에서 빠졌더라도 추적 중인 트랜잭션의 nonce는 함께 보여줍니다.
+  const tracked = records
+    .filter(
+      (record) =>
+        record.chainId === network.chainId &&
+        record.account === account.toLowerCase() &&
+        record.status === 'pending' &&
+        record.nonce >= confirmed
+    )
+    .map(({ nonce }) => nonce)
+
+  const nonces = new Set(tracked)
+  for (let nonce = confirmed; nonce < pending; nonce++) nonces.add(nonce)
+  return [...nonces].sort((a, b) => a - b)
+}
+
+// used: 확정된 트랜잭션이 nonce를 사용함 / pending: 대기열에 같은 nonce 이상이 있음 / unused: 아직 사용되지 않음
+export type NonceState = 'used' | 'pending' | 'unused'
+
+/**
+ * 전송 결과를 알 수 없는 트랜잭션의 nonce 상태를 확인합니다.
+ * 지갑이 오류를 반환한 뒤에도 이미 전파했을 수 있으므로, 다시 보내기 전에 대기 중인지 확인하는 데 사용합니다.
+ */
+export const getNonceState = async (
+  provider: ethers.Provider,
+  account: string,
+  nonce: number
+): Promise<NonceState> => {
+  const [confirmed, pending] = await Promise.all([
+    provider.getTransactionCount(account, 'latest'),
+    provider.getTransactionCount(account, 'pending'),
+  ])
+  if (confirmed > nonce) return 'used'
+  return pending > nonce ? 'pending' : 'unused'
+}
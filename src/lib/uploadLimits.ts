@@ -0,0 +1,23 @@
+/**
+ * IPFS 업로드 제한
+ * 클라이언트는 미리 안내하는 용도로, 서버는 실제 검증에 같은 값을 사용합니다.
+ */
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024
+
+export const MAX_METADATA_SIZE = 64 * 1024
+
+// SVG는 스크립트를 포함할 수 있어 허용하지 않습니다.
+export const ALLOWED_IMAGE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+]
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / 1024 / 1024) * 10) / 10}MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)}KB`
+  return `${bytes}B`
+}
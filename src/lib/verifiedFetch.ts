@@ -0,0 +1,167 @@
+/**
+ * 검증된 IPFS 콘텐츠 조회
+ * 트러스트리스 게이트웨이에 CAR(application/vnd.ipld.car) 형식으로 요청하고,
+ * 모든 블록이 자신의 CID로 해시되는지 확인한 뒤 요청한 CID에서부터 UnixFS를 따라가 내용을 꺼냅니다.
+ * 게이트웨이가 내용을 바꾸면 해시가 맞지 않아 오류가 나므로 게이트웨이를 신뢰하지 않아도 됩니다.
+ *
+ * NEXT_PUBLIC_VERIFIED_FETCH=true 로 켜고, NEXT_PUBLIC_TRUSTLESS_GATEWAYS로 게이트웨이를 지정합니다.
+ * (로컬 테스트 시 fixture CAR를 제공하는 게이트웨이 스텁 주소를 넣으면 됩니다)
+ */
+
+import { CarReader } from '@ipld/car'
+import { exporter } from 'ipfs-unixfs-exporter'
+import type { CID } from 'multiformats/cid'
+import { identity } from 'multiformats/hashes/identity'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { fetchContent, parseContentURI, parseGatewayList, toCanonicalURI } from './resolver'
+
+const DEFAULT_TRUSTLESS_GATEWAYS = ['https://trustless-gateway.link', 'https://ipfs.io']
+
+export const TRUSTLESS_GATEWAYS = parseGatewayList(
+  process.env.NEXT_PUBLIC_TRUSTLESS_GATEWAYS,
+  DEFAULT_TRUSTLESS_GATEWAYS
+)
+
+// 검증을 위해 CAR 전체를 메모리에 올리므로 크기를 제한합니다.
+const MAX_CAR_SIZE = 32 * 1024 * 1024
+const MAX_CACHE_ENTRIES = 200
+
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VerificationError'
+  }
+}
+
+export const isVerifiedFetchEnabled = () => process.env.NEXT_PUBLIC_VERIFIED_FETCH === 'true'
+
+/**
+ * CID로 검증할 수 있는 URI(ipfs)인지 확인합니다. IPNS·HTTP·Arweave 등은 검증할 수 없습니다.
+ */
+export const canVerify = (uri: string) => parseContentURI(uri)?.protocol === 'ipfs'
+
+const readLimited = async (response: Response) => {
+  const length = Number(response.headers.get('content-length') ?? 0)
+  if (length > MAX_CAR_SIZE) {
+    throw new VerificationError('CAR 응답이 너무 큽니다.')
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  if (bytes.length > MAX_CAR_SIZE) {
+    throw new VerificationError('CAR 응답이 너무 큽니다.')
+  }
+  return bytes
+}
+
+const verifyBlock = async (cid: CID, bytes: Uint8Array) => {
+  const { code, digest } = cid.multihash
+  let actual: Uint8Array
+  if (code === sha256.code) {
+    actual = (await sha256.digest(bytes)).digest
+  } else if (code === identity.code) {
+    actual = bytes
+  } else {
+    throw new VerificationError(`지원하지 않는 해시 함수입니다: 0x${code.toString(16)}`)
+  }
+
+  if (actual.length !== digest.length || actual.some((byte, i) => byte !== digest[i])) {
+    throw new VerificationError(`블록 해시가 CID와 일치하지 않습니다: ${cid}`)
+  }
+}
+
+/**
+ * CAR 응답의 모든 블록을 검증해 CID → 블록 맵으로 만듭니다.
+ */
+const readVerifiedBlocks = async (car: Uint8Array) => {
+  let reader: CarReader
+  try {
+    reader = await CarReader.fromBytes(car)
+  } catch (error) {
+    throw new VerificationError(`CAR 형식이 올바르지 않습니다: ${(error as Error).message}`)
+  }
+
+  const blocks = new Map<string, Uint8Array>()
+  for await (const { cid, bytes } of reader.blocks()) {
+    await verifyBlock(cid, bytes)
+    blocks.set(cid.toV1().toString(), bytes)
+  }
+  return blocks
+}
+
+const verifiedCache = new Map<string, Promise<Uint8Array>>()
+
+const fetchAndVerify = async (root: string, path: string) => {
+  // Accept 헤더 대신 format 쿼리를 사용해 CORS 사전 요청을 피합니다.
+  const response = await fetchContent(`ipfs://${root}${path}?format=car&dag-scope=entity`, {
+    gateways: TRUSTLESS_GATEWAYS,
+  })
+  const blocks = await readVerifiedBlocks(await readLimited(response))
+
+  // 검증된 블록만 담은 저장소에서 요청한 CID부터 경로를 따라갑니다.
+  // CAR에 없는 블록이 필요하면 exporter가 실패하므로 누락된 데이터도 걸러집니다.
+  const blockstore = {
+    *get(cid: CID) {
+      const block = blocks.get(cid.toV1().toString())
+      if (!block) {
+        throw new VerificationError(`CAR에 필요한 블록이 없습니다: ${cid}`)
+      }
+      yield block
+    },
+  }
+
+  const entry = await exporter(`${root}${path}`, blockstore)
+  if (entry.type !== 'file' && entry.type !== 'raw' && entry.type !== 'identity') {
+    throw new VerificationError('파일이 아닌 콘텐츠(디렉터리 등)를 가리킵니다.')
+  }
+
+  const chunks: Uint8Array[] = []
+  for await (const chunk of entry.content()) {
+    chunks.push(chunk)
+  }
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset)
+    return offset + chunk.length
+  }, 0)
+  return bytes
+}
+
+/**
+ * IPFS URI의 내용을 CAR로 받아 검증한 뒤 바이트로 반환합니다.
+ * IPFS 콘텐츠는 변하지 않으므로 검증 결과를 캐시합니다.
+ */
+export async function fetchVerifiedBytes(uri: string): Promise<Uint8Array> {
+  const location = parseContentURI(uri)
+  if (location?.protocol !== 'ipfs') {
+    throw new VerificationError('IPFS URI만 검증할 수 있습니다.')
+  }
+  // 쿼리·해시는 콘텐츠 경로가 아니므로 제외합니다.
+  const path = location.path.replace(/[?#].*$/, '')
+  const key = toCanonicalURI({ ...location, path })
+
+  let pending = verifiedCache.get(key)
+  if (!pending) {
+    pending = fetchAndVerify(location.root, path)
+    pending.catch(() => verifiedCache.delete(key))
+    if (verifiedCache.size >= MAX_CACHE_ENTRIES) {
+      verifiedCache.delete(verifiedCache.keys().next().value as string)
+    }
+    verifiedCache.set(key, pending)
+  }
+  return pending
+}
+
+/**
+ * 검증된 JSON 메타데이터를 가져옵니다.
+ */
+export async function fetchVerifiedMetadata<T = unknown>(uri: string): Promise<T> {
+  const bytes = await fetchVerifiedBytes(uri)
+  return JSON.parse(new TextDecoder().decode(bytes)) as T
+}
+
+/**
+ * 검증된 이미지를 Blob으로 가져옵니다. (URL.createObjectURL로 표시)
+ */
+export async function fetchVerifiedBlob(uri: string): Promise<Blob> {
+  const bytes = await fetchVerifiedBytes(uri)
+  return new Blob([bytes as BlobPart])
+}
@@ -1,57 +1,134 @@
 import { ethers } from 'ethers'
-import { SEPOLIA_CHAIN_ID, SEPOLIA_NETWORK } from './constants'
+import { NetworkConfig } from './networks'
+import { WalletConnector, getActiveConnector, setActiveConnector } from './connectors'
 
-export const connectWallet = async () => {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('MetaMask가 설치되어 있지 않습니다.')
+const requireConnector = (): WalletConnector => {
+  const connector = getActiveConnector()
+  if (!connector) {
+    throw new Error('사용 가능한 지갑이 없습니다. MetaMask 등 지갑을 설치해주세요.')
   }
+  return connector
+}
 
-  try {
-    const provider = new ethers.BrowserProvider(window.ethereum)
-    const accounts = await provider.send('eth_requestAccounts', [])
-    const network = await provider.getNetwork()
-
-    // Sepolia 네트워크로 전환
-    if (Number(network.chainId) !== SEPOLIA_CHAIN_ID) {
-      try {
-        await window.ethereum.request({
-          method: 'wallet_switchEthereumChain',
-          params: [{ chainId: SEPOLIA_NETWORK.chainId }],
-        })
-      } catch (switchError: any) {
-        // 네트워크가 없으면 추가
-        if (switchError.code === 4902) {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [SEPOLIA_NETWORK],
-          })
-        } else {
-          throw switchError
-        }
-      }
-    }
+/**
+ * 지갑을 지정한 네트워크로 전환합니다. 지갑에 네트워크가 없으면 추가합니다.
+ */
+export const switchNetwork = async (network: NetworkConfig) => {
+  await requireConnector().switchChain(network)
+}
 
+/**
+ * 지갑을 연결합니다.
+ * @param network 연결 후 전환할 네트워크
+ * @param connectorId 사용할 커넥터 ID (생략하면 현재 선택된 커넥터)
+ */
+export const connectWallet = async (network: NetworkConfig, connectorId?: string) => {
+  if (connectorId) {
+    setActiveConnector(connectorId)
+  }
+  const connector = requireConnector()
+
+  try {
+    const { address } = await connector.connect(network)
+    const provider = new ethers.BrowserProvider(connector.getProvider())
     const signer = await provider.getSigner()
-    return { provider, signer, address: accounts[0] }
-  } catch (error: any) {
-    throw new Error(error.message || '지갑 연결에 실패했습니다.')
+    return { provider, signer, address }
+  } catch (error) {
+    throw new Error((error as Error).message || '지갑 연결에 실패했습니다.', { cause: error })
   }
 }
 
+/**
+ * 지갑 연결을 해제하고 선택 기록을 지웁니다.
+ */
+export const disconnectWallet = async () => {
+  const connector = getActiveConnector()
+  if (connector) {
+    await connector.disconnect()
+  }
+  setActiveConnector(null)
+}
+
 export const getProvider = () => {
-  if (typeof window === 'undefined' || !window.ethereum) {
+  const connector = getActiveConnector()
+  if (!connector) {
     return null
   }
-  return new ethers.BrowserProvider(window.ethereum)
+  return new ethers.BrowserProvider(connector.getProvider())
 }
 
-export const formatAddress = (address: string) => {
-  if (!address) return ''
-  return `${address.slice(0, 6)}...${address.slice(-4)}`
+const readOnlyProviders = new Map<string, ethers.AbstractProvider>()
+
+/**
+ * 지갑 없이 사용할 읽기 전용 프로바이더를 만듭니다.
+ * RPC가 여러 개면 FallbackProvider로 묶어 rpcQuorum 개의 응답이 일치할 때 결과를 사용합니다.
+ */
+export const getReadOnlyProvider = (network: NetworkConfig) => {
+  const cached = readOnlyProviders.get(network.key)
+  if (cached) return cached
+
+  const staticNetwork = ethers.Network.from(network.chainId)
+  const providers = network.rpcUrls.map(
+    (url) => new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork })
+  )
+
+  const provider =
+    providers.length === 1
+      ? providers[0]
+      : new ethers.FallbackProvider(
+          providers.map((rpc, i) => ({
+            provider: rpc,
+            priority: i + 1,
+            weight: 1,
+            stallTimeout: 1500,
+          })),
+          staticNetwork,
+          { quorum: Math.min(network.rpcQuorum, providers.length) }
+        )
+
+  readOnlyProviders.set(network.key, provider)
+  return provider
 }
 
-declare global {
-  interface Window {
-    ethereum?: any
+/**
+ * 선택한 네트워크의 상태를 읽을 프로바이더를 가져옵니다.
+ * 지갑이 같은 체인에 연결되어 있으면 지갑을, 아니면 읽기 전용 RPC를 사용합니다.
+ */
+export const getReadProvider = async (network: NetworkConfig): Promise<ethers.Provider> => {
+  const provider = getProvider()
+  if (provider) {
+    try {
+      const current = await provider.getNetwork()
+      if (Number(current.chainId) === network.chainId) return provider
+    } catch (error) {
+      console.error('지갑 네트워크 확인 실패:', error)
+    }
+  }
+  return getReadOnlyProvider(network)
+}
+
+/**
+ * 선택한 네트워크에서 트랜잭션을 보낼 서명자를 가져옵니다.
+ * 지갑이 다른 체인에 있으면 먼저 전환을 요청합니다.
+ */
+export const getSigner = async (network: NetworkConfig) => {
+  const connector = requireConnector()
+
+  if ((await connector.getChainId()) !== network.chainId) {
+    await connector.switchChain(network)
   }
+  return new ethers.BrowserProvider(connector.getProvider()).getSigner()
+}
+
+/**
+ * 사용자가 지갑에서 요청을 거절했는지 확인합니다. (ethers ACTION_REJECTED / EIP-1193 4001)
+ */
+export const isUserRejection = (error: unknown) => {
+  const { code } = (error ?? {}) as { code?: unknown }
+  return code === 'ACTION_REJECTED' || code === 4001
+}
+
+export const formatAddress = (address: string) => {
+  if (!address) return ''
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
 }